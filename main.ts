@@ -1,42 +1,331 @@
-import { App, Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
-import { TFolder, TFile } from 'obsidian';
-import * as fs from 'fs/promises';
+import { App, Component, MarkdownRenderer, Notice, Plugin, PluginSettingTab, Setting, debounce, moment, normalizePath } from 'obsidian';
+import { TAbstractFile, TFile } from 'obsidian';
 import * as path from 'path';
-
-interface TwitterDiaryPluginSettings {
+import { FSWatcher, watch } from 'fs';
+import { AccountHistory, AccountInfo } from './src/account';
+import { ArchiveIndex, ArchiveSource, ArchiveTweet } from './src/archive';
+import { FolderSource, HttpSource } from './src/feeds';
+import { BlueskySource, MastodonSource, withBlueskyHandle } from './src/networks';
+import { ActivityKind, DayActivity, DirectMessage, SavedTweet } from './src/activity';
+import { BlockLayout, DiaryBlockOptions, TimeGrouping, parseBlockOptions } from './src/codeblock';
+import { DateRangeModal } from './src/date-range-modal';
+import { ExportFormat, TweetExporter } from './src/export';
+import { ExportModal } from './src/export-modal';
+import { MediaResolver, toResourceUrl } from './src/media';
+import { NETWORK_NAMES, Network, Tweet, TweetMedia, collapseThreads, compareTweets, sortTweets, tweetKind, toTweet } from './src/tweet';
+import { renderMediaGrid } from './src/media-grid';
+import { DiaryRenderChild } from './src/render-child';
+import { ArchiveReportModal, checkArchive, validateDataPath, validateVaultFolder } from './src/health';
+import { FolderSuggest, pickDirectory, pickFile, pickSaveFile } from './src/pickers';
+import { NoteWriter } from './src/writer';
+import { TweetMarks, TweetMenu } from './src/tweet-menu';
+import { OnThisDayView, VIEW_TYPE_ON_THIS_DAY } from './src/on-this-day-view';
+import { StatsView, VIEW_TYPE_STATS, renderHeatmap } from './src/stats-view';
+import { computeStats, statsToMarkdown } from './src/stats';
+import { TwitterDiaryApi, createApi } from './src/api';
+import { SearchEntry, toSearchEntry } from './src/search';
+import { DiaryNotes, NoteFormatSource, NotePeriod, validateNoteFormat } from './src/notes';
+import { TweetSearchModal } from './src/search-modal';
+import { decodeEntities, isSafeUrl, linkTarget } from './src/text';
+import { eachDay, formatDay, formatHour, formatTime, formatTimestamp, partOfDay, isValidDayStart, isValidTimeZone, parseDayStart, resolveTimeZone, toDayKey } from './src/time';
+
+interface TwitterDiaryPluginSettings extends TweetMarks {
 	dataPath: string;
 	metadataPath: string,
 	diaryPath: string,
+	// moment formats diary notes are named by, or another plugin's
+	noteFormatSource: NoteFormatSource,
+	noteFormat: string,
+	// off when empty
+	weeklyNoteFormat: string,
+	monthlyNoteFormat: string,
+	includeDeletedTweets: boolean,
+	// IANA name, empty means the system timezone
+	timeZone: string,
+	// "HH:MM", tweets before this count towards the previous day
+	dayStartsAt: string,
+	includeReplies: boolean,
+	includeThreads: boolean,
+	includeRetweets: boolean,
+	includeQuoteTweets: boolean,
+	allowRemoteMedia: boolean,
+	importMedia: boolean,
+	// inject tweets into notes containing << and >>, from before code blocks
+	legacyTrigger: boolean,
+	// note new diary notes start from when backfilling, {{date}} and {{title}} are replaced
+	noteTemplatePath: string,
+	// where @mentions and #hashtags link to, {name} is replaced. Empty for no link
+	mentionLinkTemplate: string,
+	hashtagLinkTemplate: string,
+	// keep tweet_count, tweet_ids etc. in diary notes' frontmatter
+	writeProperties: boolean,
+	// extra sections from like.js, bookmarks and DMs
+	includeLikes: boolean,
+	includeBookmarks: boolean,
+	includeDirectMessages: boolean,
+	// how blocks without a layout option show tweets
+	layout: BlockLayout,
+	tweetOrder: 'oldest' | 'newest',
+	timeGrouping: TimeGrouping,
+	showStats: boolean,
+	showAvatars: boolean,
+	showMedia: boolean,
+	// folder outside the vault with JSON/JSONL tweets from after the export, off when empty
+	feedFolder: string,
+	// unzipped Mastodon export (with outbox.json), off when empty
+	mastodonArchivePath: string,
+	// Bluesky repo .car or records JSON, off when empty
+	blueskyArchivePath: string,
+	// for bsky.app links, the export only has the DID
+	blueskyHandle: string,
+	// Twitter-compatible API to pull new tweets from, off when empty
+	syncUrl: string,
+	syncToken: string,
+	// minutes between syncs, 0 to only sync on startup and by command
+	syncInterval: number,
 }
 
+/**
+ * Which tweet types to pull in on top of original tweets
+ */
+type TweetFilter = Pick<TwitterDiaryPluginSettings,
+	'includeReplies' | 'includeThreads' | 'includeRetweets' | 'includeQuoteTweets' | 'includeDeletedTweets' |
+	'includeLikes' | 'includeBookmarks' | 'includeDirectMessages'>;
+
 const DEFAULT_SETTINGS: TwitterDiaryPluginSettings = {
 	dataPath: '/Users/you/Archive/twitter-2025-03-14-3mn8m83n29m32mk032m03/data',
 	metadataPath: 'Assets/Twitter',
 	diaryPath: 'Daily Log',
+	noteFormatSource: 'plugin',
+	noteFormat: 'YYYY-MM-DD',
+	weeklyNoteFormat: '',
+	monthlyNoteFormat: '',
+	includeDeletedTweets: false,
+	timeZone: '',
+	dayStartsAt: '',
+	includeReplies: false,
+	includeThreads: false,
+	includeRetweets: false,
+	includeQuoteTweets: false,
+	allowRemoteMedia: false,
+	importMedia: false,
+	legacyTrigger: true,
+	noteTemplatePath: '',
+	mentionLinkTemplate: 'https://x.com/{name}',
+	hashtagLinkTemplate: 'https://x.com/hashtag/{name}',
+	writeProperties: false,
+	includeLikes: false,
+	includeBookmarks: false,
+	includeDirectMessages: false,
+	layout: 'cards',
+	tweetOrder: 'oldest',
+	timeGrouping: 'none',
+	showStats: true,
+	showAvatars: true,
+	showMedia: true,
+	feedFolder: '',
+	mastodonArchivePath: '',
+	blueskyArchivePath: '',
+	blueskyHandle: '',
+	syncUrl: '',
+	syncToken: '',
+	syncInterval: 60,
+	hiddenTweets: [],
+	pinnedTweets: [],
+	annotations: {},
 }
 
 export default class TwitterDiaryPlugin extends Plugin {
 	settings: TwitterDiaryPluginSettings;
+	archive: ArchiveIndex;
+	// where tweets come from, the archive first so its copy of a tweet wins
+	archiveSource: ArchiveSource;
+	mastodonSource: MastodonSource;
+	blueskySource: BlueskySource;
+	folderSource: FolderSource;
+	httpSource: HttpSource;
+	media: MediaResolver;
+	writer: NoteWriter;
+	account: AccountHistory;
+	notes: DiaryNotes;
+	exporter: TweetExporter;
+	tweetMenu: TweetMenu;
+	// for Dataview, Templater and other plugins
+	api: TwitterDiaryApi;
+	private searchCache: { generation: number, entries: SearchEntry[] } | null = null;
+	// blocks and legacy notes currently on screen
+	private renderers = new Set<DiaryRenderChild>();
+	private archiveWatchers: FSWatcher[] = [];
+	private watchedPaths = '';
+	private syncTimer: number | null = null;
+	// settings text fields save on every keystroke, redraw once they settle
+	private requestRefresh = debounce(() => this.refreshViews(), 500, true);
 
 	async onload() {
 		await this.loadSettings();
+		this.archiveSource = new ArchiveSource(() => this.settings.dataPath, () => this.activityKinds());
+		this.mastodonSource = new MastodonSource(() => this.settings.mastodonArchivePath);
+		this.blueskySource = new BlueskySource(() => this.settings.blueskyArchivePath);
+		this.folderSource = new FolderSource(() => this.settings.feedFolder);
+		this.httpSource = new HttpSource(
+			this.app.vault.adapter,
+			normalizePath(`${this.manifest.dir}/synced-tweets.json`),
+			() => this.settings,
+		);
+		this.archive = new ArchiveIndex(
+			this.app.vault.adapter,
+			normalizePath(`${this.manifest.dir}/archive-index.json`),
+			() => [this.archiveSource, this.mastodonSource, this.blueskySource, this.folderSource, this.httpSource],
+			(timestamp) => this.toDiaryDay(timestamp),
+			() => `${this.timeZone()}|${parseDayStart(this.settings.dayStartsAt)}`,
+		);
+		this.media = new MediaResolver(this.app, () => this.settings);
+		this.notes = new DiaryNotes(this.app, () => this.settings);
+		this.writer = new NoteWriter(this);
+		this.exporter = new TweetExporter(this);
+		this.tweetMenu = new TweetMenu(this);
+		this.account = new AccountHistory(this.app, () => this.settings, timestamp => this.toDiaryDay(timestamp));
+		this.api = createApi(this);
+
+		// hand-made metadata folders override the archive, pick up edits to them.
+		// Imported media lives in there too but doesn't change what's shown
+		const onMetadataChange = (file: TAbstractFile) => {
+			const metadataPath = normalizePath(this.settings.metadataPath);
+			if (file.path.startsWith(metadataPath) && !file.path.startsWith(metadataPath + '/media/')) {
+				this.account.invalidate();
+				this.requestRefresh();
+			}
+		};
+		this.registerEvent(this.app.vault.on('create', onMetadataChange));
+		this.registerEvent(this.app.vault.on('modify', onMetadataChange));
+		this.registerEvent(this.app.vault.on('delete', onMetadataChange));
+		this.registerEvent(this.app.vault.on('rename', onMetadataChange));
+		this.registerMarkdownCodeBlockProcessor('twitter-diary', (source, element, context) => {
+			context.addChild(new DiaryRenderChild(element, (target, component) =>
+				this.renderDiaryBlock(source, target, context.sourcePath, component), this.renderers));
+		});
+
 		this.registerMarkdownPostProcessor((element, context) => {
 			const currentPath = context.sourcePath;
-			if (this.isDailyLogNote(currentPath)) {
+			if (this.settings.legacyTrigger && this.notes.parse(currentPath)) {
 				// FIX: change to << [[YYYY-MM-DD]] | [[YYYY-MM-DD]] >>
 				if (
 					element.textContent?.contains("<<") &&
 					element.textContent?.contains(">>")
 				) {
-					this.injectTwitterContent(element, currentPath);
+					const container = element.createDiv();
+					context.addChild(new DiaryRenderChild(container, async (target) => {
+						if (this.settings.legacyTrigger) await this.injectTwitterContent(target, currentPath);
+					}, this.renderers));
+				}
+			}
+		});
+
+		this.registerEvent(this.app.workspace.on('file-open', (file) => {
+			const day = file && this.isDailyLogNote(file.path) && this.noteDay(file.path);
+			if (this.settings.writeProperties && file && day) {
+				this.writer.writeProperties(file, day)
+					.catch(error => console.error('Error writing tweet properties:', error));
+			}
+		}));
+
+		this.registerView(VIEW_TYPE_ON_THIS_DAY, (leaf) => new OnThisDayView(leaf, this));
+		this.registerView(VIEW_TYPE_STATS, (leaf) => new StatsView(leaf, this));
+
+		this.addCommand({
+			id: 'open-on-this-day',
+			name: 'Open "On this day"',
+			callback: () => this.activateView(VIEW_TYPE_ON_THIS_DAY)
+		});
+
+		this.addCommand({
+			id: 'open-tweet-stats',
+			name: 'Open tweet stats',
+			callback: () => this.activateView(VIEW_TYPE_STATS)
+		});
+
+		this.addCommand({
+			id: 'open-random-day',
+			name: 'Open a random day with tweets',
+			callback: () => this.openRandomDay()
+		});
+
+		this.addCommand({
+			id: 'search-tweets',
+			name: 'Search tweets',
+			callback: () => new TweetSearchModal(this.app, this).open()
+		});
+
+		this.addCommand({
+			id: 'write-tweets-into-note',
+			name: 'Write tweets into note',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				const note = file && this.notes.parse(file.path);
+				if (!file || !note) return false;
+				if (!checking) {
+					this.writer.writeNote(file, note.from, note.to)
+						.then(count => new Notice(`Wrote ${count} tweets into ${file.basename}`))
+						.catch(error => {
+							new Notice("Error writing tweets");
+							console.error('Error writing tweets:', error);
+						});
 				}
+				return true;
 			}
 		});
 
+		this.addCommand({
+			id: 'write-tweets-into-range',
+			name: 'Write tweets into notes for a date range',
+			callback: () => new DateRangeModal(this.app, 'Write tweets into notes', (from, to) =>
+				this.writer.writeRange(from, to)
+			).open()
+		});
+
+		this.addCommand({
+			id: 'backfill-diary-notes',
+			name: 'Backfill all diary notes',
+			callback: () => this.writer.backfill()
+		});
+
+		this.addCommand({
+			id: 'write-tweet-properties',
+			name: 'Write tweet properties into all diary notes',
+			callback: () => this.writer.writeAllProperties()
+		});
+
+		this.addCommand({
+			id: 'export-tweets',
+			name: 'Export tweets as HTML, Markdown or JSON',
+			callback: () => new ExportModal(this.app, (from, to, format) => this.exportTweets(from, to, format)).open()
+		});
+
+		this.addCommand({
+			id: 'sync-tweets',
+			name: 'Sync new tweets',
+			callback: () => this.syncTweets(true)
+		});
+
+		this.addCommand({
+			id: 'check-archive',
+			name: 'Check archive',
+			callback: () => this.checkArchive()
+		});
+
 		this.addSettingTab(new TwitterDiarySettingTab(this.app, this));
+		this.watchArchive();
+		this.app.workspace.onLayoutReady(() => this.syncTweets(false));
+		this.scheduleSync();
 	}
 
-	onunload() {}
+	onunload() {
+		this.requestRefresh.cancel();
+		this.stopWatchingArchive();
+		if (this.syncTimer !== null) window.clearInterval(this.syncTimer);
+		// Obsidian keeps the notes open, take our tweets out of them
+		Array.from(this.renderers).forEach(renderer => renderer.unload());
+	}
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
@@ -44,549 +333,1078 @@ export default class TwitterDiaryPlugin extends Plugin {
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.watchArchive();
+		this.scheduleSync();
+		this.requestRefresh();
 	}
 
-	isDailyLogNote(filePath: string): boolean {
-		const a = new RegExp(`${this.settings.diaryPath}/\\d+/\\d{4}-\\d{2}-\\d{2}\\.md$`);
-		const b = new RegExp(`${this.settings.diaryPath}/\\d{4}-\\d{2}-\\d{2}\\.md$`);
-		return a.test(filePath) || b.test(filePath);
+	/**
+	 * Forgets cached account info and media listings, has the index check the
+	 * archive's files again and draws every open block and view again
+	 */
+	refreshViews() {
+		this.archive.invalidate();
+		this.account.invalidate();
+		this.media.invalidate();
+		this.renderers.forEach(renderer => renderer.render());
+
+		const { workspace } = this.app;
+		workspace.getLeavesOfType(VIEW_TYPE_ON_THIS_DAY).forEach(leaf => {
+			if (leaf.view instanceof OnThisDayView) leaf.view.refresh(true);
+		});
+		workspace.getLeavesOfType(VIEW_TYPE_STATS).forEach(leaf => {
+			if (leaf.view instanceof StatsView) leaf.view.refresh();
+		});
+	}
+
+	/**
+	 * Reads the whole archive and shows what was found and what's wrong with it
+	 */
+	async checkArchive() {
+		const notice = new Notice('Checking archive…', 0);
+		try {
+			const report = await checkArchive(this.settings.dataPath, timestamp => this.toDiaryDay(timestamp));
+			new ArchiveReportModal(this.app, report).open();
+		} catch (error) {
+			new Notice(`Error checking archive: ${error.message}`);
+			console.error('Error checking archive:', error);
+		} finally {
+			notice.hide();
+		}
 	}
 
-	isDuringDST(date: Date) {
-		// TODO: make it return TRUE if date is after this bill passes:
-		// TODO: let users pick timezone
-		// https://www.congress.gov/bill/119th-congress/house-bill/139
-		
-		let early = new Date(date.getFullYear(), 0, 1).getTimezoneOffset();
-		let middle = new Date(date.getFullYear(), 6, 1).getTimezoneOffset();
-		return Math.max(early, middle) !== date.getTimezoneOffset();
+	/**
+	 * Exports the tweets from `from` to `to`, asking where to save HTML and JSON
+	 */
+	async exportTweets(from: string, to: string, format: ExportFormat) {
+		const name = from === to ? `tweets-${from}` : `tweets-${from}-to-${to}`;
+		const extension = format === 'html' ? 'html' : 'json';
+		let file: string | null = null;
+		if (format !== 'markdown') {
+			try {
+				file = await pickSaveFile('Export tweets', `${name}.${extension}`, extension);
+			} catch (error) {
+				new Notice(`Error exporting tweets: ${error.message}`);
+				console.error('Error picking the export file:', error);
+				return;
+			}
+			if (!file) return;
+		}
+
+		const notice = new Notice('Exporting tweets…', 0);
+		try {
+			if (format === 'markdown') {
+				const note = await this.exporter.exportNote(from, to);
+				await this.app.workspace.getLeaf(false).openFile(note);
+			} else {
+				await this.exporter.exportFile(from, to, format, file!);
+				new Notice(`Exported tweets to ${file}`);
+			}
+		} catch (error) {
+			new Notice(`Error exporting tweets: ${error.message}`);
+			console.error('Error exporting tweets:', error);
+		} finally {
+			notice.hide();
+		}
 	}
 
-	toESTDateString(timestamp: string) {
-		const date = new Date(timestamp);
-		const estOffset = (-4 - (this.isDuringDST(date) ? 1 : 0)) * 60;
-		const estDate = new Date(date.getTime() + (estOffset * 60 * 1000));
-		return estDate.toISOString().split('T')[0];
+	/**
+	 * Watches the archive folder so a replaced export shows up without reopening notes
+	 */
+	private watchArchive() {
+		const { dataPath, feedFolder, mastodonArchivePath, blueskyArchivePath } = this.settings;
+		const paths = [dataPath, feedFolder, mastodonArchivePath, blueskyArchivePath].filter(folder => folder);
+		if (this.archiveWatchers.length > 0 && paths.join('|') === this.watchedPaths) return;
+
+		this.stopWatchingArchive();
+		this.watchedPaths = paths.join('|');
+		for (const folder of paths) {
+			try {
+				const watcher = watch(folder, () => this.requestRefresh());
+				watcher.on('error', () => watcher.close());
+				this.archiveWatchers.push(watcher);
+			} catch (error) {
+				// no archive there (yet), blocks show the error instead
+			}
+		}
 	}
 
+	private stopWatchingArchive() {
+		this.archiveWatchers.forEach(watcher => watcher.close());
+		this.archiveWatchers = [];
+	}
 
 	/**
-	 * Returns the folder name for a specific date, finding the most recent folder on or before the given date
+	 * Pulls new tweets from the sync URL into the index, only reporting back
+	 * when asked for by command
 	 */
-	async getFolderForDate(date: Date, offset: number): Promise < string > {
-		const baseFolder = this.app.vault.getAbstractFileByPath(this.settings.metadataPath);
-		if (!baseFolder || !(baseFolder instanceof TFolder)) {
-			return "";
+	async syncTweets(manual: boolean) {
+		if (!this.settings.syncUrl) {
+			if (manual) new Notice('Set a Sync URL first');
+			return;
 		}
 
-		const folders = baseFolder.children
-			.filter(file => file instanceof TFolder)
-			.map(folder => folder.name)
-			.filter(name => /^\d{4}-\d{2}-\d{2}$/.test(name))
-			.sort();
+		try {
+			const tweets = await this.httpSource.sync();
+			const added = await this.archive.merge(this.httpSource, tweets);
+			if (added > 0) this.requestRefresh();
+			if (manual) new Notice(added > 0 ? `Synced ${added} new tweets` : 'No new tweets');
+		} catch (error) {
+			if (manual) new Notice(`Error syncing tweets: ${error.message}`);
+			console.error('Error syncing tweets:', error);
+		}
+	}
 
-		const dateString = date.toISOString().split('T')[0];
+	private scheduleSync() {
+		if (this.syncTimer !== null) window.clearInterval(this.syncTimer);
+		this.syncTimer = null;
+		if (this.settings.syncUrl && this.settings.syncInterval > 0) {
+			this.syncTimer = window.setInterval(() => this.syncTweets(false), this.settings.syncInterval * 60 * 1000);
+		}
+	}
+
+	isDailyLogNote(filePath: string): boolean {
+		const note = this.notes.parse(filePath);
+		return !!note && note.period === 'day';
+	}
+
+	timeZone(): string {
+		return resolveTimeZone(this.settings.timeZone);
+	}
+
+	/**
+	 * Which of likes, bookmarks and DMs the archive should read
+	 */
+	activityKinds(): ActivityKind[] {
+		const kinds: ActivityKind[] = [];
+		if (this.settings.includeLikes) kinds.push('likes');
+		if (this.settings.includeBookmarks) kinds.push('bookmarks');
+		if (this.settings.includeDirectMessages) kinds.push('messages');
+		return kinds;
+	}
+
+	/**
+	 * Returns the diary day (YYYY-MM-DD) a tweet timestamp belongs to
+	 */
+	toDiaryDay(timestamp: string): string {
+		return toDayKey(timestamp, this.timeZone(), parseDayStart(this.settings.dayStartsAt));
+	}
 
-		if (offset >= folders.length) return "";
 
-		// find closest folder after date (if none exists after the date return fallback)
-		for (let i = offset; i < folders.length; i++) {
-			if (folders[i] >= dateString) {
-				return folders[i];
+	async injectTwitterContent(element: HTMLElement, filePath: string) {
+		try {
+			const note = this.notes.parse(filePath);
+
+			if (note) {
+				// weekly and monthly notes get every day in them
+				const days = eachDay(note.from, note.to);
+				let entries: { tweet: Tweet, account: AccountInfo }[] = [];
+				for (const { day, tweets } of await this.getTweetsForRange(note.from, note.to)) {
+					const account = await this.account.info(new Date(day));
+					entries = entries.concat(tweets.map(tweet => ({ tweet, account })));
+				}
+
+				this.renderTweets(element, this.sortEntries(entries, this.settings.tweetOrder), this.settings.layout);
+				await this.renderActivity(element, days, this.settings);
 			}
+		} catch (error) {
+			this.renderBlockError(element, error.message);
+			console.error('Error injecting Twitter content:', error);
 		}
+	}
+
+	/**
+	 * The day (YYYY-MM-DD) a note is for, going by the note formats, or by
+	 * its name for notes outside the diary
+	 */
+	noteDay(filePath: string): string | undefined {
+		const note = this.notes.parse(filePath);
+		if (note) return note.period === 'day' ? note.from : undefined;
+		const name = path.basename(filePath, '.md');
+		return moment(name, 'YYYY-MM-DD', true).isValid() ? name : undefined;
+	}
 
-		// fallback
-		return "";
+	/**
+	 * Today's diary day, respecting the timezone and day start settings
+	 */
+	today(): string {
+		return this.toDiaryDay(new Date().toISOString());
 	}
 
 	/**
-	 * Gets the avatar image path for a specific date
+	 * Diary notes in the vault by day
 	 */
-	async getAvatar(date: Date): Promise < string > {
-		let offset = 0;
-		const extensions = ["jpg", "jpeg", "webp", "png"];
+	dailyNotes(): Map<string, TFile> {
+		return this.notes.dailyNotes();
+	}
 
-		while (true) {
-			let folderPath = await this.getFolderForDate(date, offset);
+	/**
+	 * Opens the diary note for `day`, creating it from the template if needed
+	 */
+	async openDailyNote(day: string) {
+		const note = this.dailyNotes().get(day) || await this.writer.createNote(day);
+		await this.app.workspace.getLeaf(false).openFile(note);
+	}
 
-			if (folderPath) {
-				for (const ext of extensions) {
-					const avatarPath = `${this.settings.metadataPath}/${folderPath}/avatar.${ext}`;
-					if (await this.app.vault.adapter.exists(avatarPath)) {
-						const file = this.app.vault.getAbstractFileByPath(avatarPath);
-						if (file instanceof TFile) {
-							return this.app.vault.getResourcePath(file);
-						}
-					}
-				}
-				offset++;
-			} else {
-				// extensions
-				for (const ext of extensions) {
-					const avatarPath = `${this.settings.metadataPath}/avatar.${ext}`;
-					if (await this.app.vault.adapter.exists(avatarPath)) {
-						const file = this.app.vault.getAbstractFileByPath(avatarPath);
-						if (file instanceof TFile) {
-							return this.app.vault.getResourcePath(file);
-						}
-					}
-				}
-				// lol fallback (like, fallback fallback)
-				return "https://bigrat.monster/media/bigrat.jpg";
+	async openRandomDay() {
+		const today = this.today();
+		let days: string[];
+		try {
+			days = (await this.archive.getDays()).filter(day => day < today);
+		} catch (error) {
+			new Notice(`Error reading the archive: ${error.message}`);
+			console.error('Error picking a random day:', error);
+			return;
+		}
+		if (days.length === 0) {
+			new Notice("No past days with tweets");
+			return;
+		}
+		await this.openDailyNote(days[Math.floor(Math.random() * days.length)]);
+	}
+
+	async activateView(viewType: string) {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(viewType)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: viewType, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Every tweet in the archive prepared for searching, oldest first
+	 */
+	async searchEntries(): Promise<SearchEntry[]> {
+		const days = await this.archive.getAllDays();
+		if (!this.searchCache || this.searchCache.generation !== this.archive.generation) {
+			const entries: SearchEntry[] = [];
+			for (const day of Object.keys(days).sort()) {
+				days[day]
+					.map(raw => toSearchEntry(raw, day))
+					.sort((a, b) => new Date(a.raw.created_at).getTime() - new Date(b.raw.created_at).getTime())
+					.forEach(entry => entries.push(entry));
 			}
+			this.searchCache = { generation: this.archive.generation, entries };
 		}
+
+		const entries = this.searchCache.entries;
+		return this.settings.includeDeletedTweets ? entries : entries.filter(entry => !entry.raw.deleted);
 	}
 
 	/**
-	 * Gets the username for a specific date
+	 * Search entries narrowed down to the tweet types the diary shows
 	 */
-	async getUsername(date: Date): Promise < string > {
-		let offset = 0;
-		while (true) {
-			let folderPath = await this.getFolderForDate(date, offset);
-			if (folderPath) {
-				const mdPath = `${this.settings.metadataPath}/${folderPath}/${folderPath}.md`;
-				if (await this.app.vault.adapter.exists(mdPath)) {
-					const fileContent = await this.app.vault.adapter.read(mdPath);
-					const lines = fileContent.split('\n');
-					if (lines[0] && lines[0].trim() !== "") {
-						return lines[0];
-					}
-				}
-				offset++;
+	async statsEntries(): Promise<SearchEntry[]> {
+		const { includeReplies, includeThreads, includeRetweets, includeQuoteTweets } = this.settings;
+		return (await this.searchEntries()).filter(entry => {
+			switch (entry.kind) {
+				case 'reply': return includeReplies || includeThreads;
+				case 'retweet': return includeRetweets;
+				case 'quote': return includeQuoteTweets;
+				default: return true;
+			}
+		});
+	}
+
+	/**
+	 * Tweets from the same month and day in every earlier year, newest year first
+	 */
+	async getOnThisDay(day: string): Promise<{ day: string, tweets: Tweet[] }[]> {
+		const monthDay = day.slice(4);
+		const days = (await this.archive.getDays())
+			.filter(other => other.slice(4) === monthDay && other < day)
+			.reverse();
+
+		const groups: { day: string, tweets: Tweet[] }[] = [];
+		for (const other of days) {
+			const tweets = await this.getTweetsForDate(new Date(other));
+			if (tweets.length > 0) groups.push({ day: other, tweets });
+		}
+		return groups;
+	}
+
+	async renderOnThisDay(element: HTMLElement, day: string) {
+		const container = document.createElement('div');
+		container.className = 'twitter-diary-on-this-day';
+		element.appendChild(container);
+
+		const groups = await this.getOnThisDay(day);
+		const notes = this.dailyNotes();
+
+		if (groups.length === 0) {
+			const empty = document.createElement('div');
+			empty.textContent = 'No tweets on this day in earlier years';
+			empty.className = 'tweet-empty';
+			container.appendChild(empty);
+		}
+
+		for (const group of groups) {
+			const heading = document.createElement('h4');
+			heading.className = 'tweet-year';
+			const year = group.day.slice(0, 4);
+			const note = notes.get(group.day);
+			if (note) {
+				const link = document.createElement('a');
+				link.className = 'internal-link';
+				link.textContent = year;
+				link.addEventListener('click', (event) => {
+					event.preventDefault();
+					this.app.workspace.getLeaf(false).openFile(note);
+				});
+				heading.appendChild(link);
 			} else {
-				const mdPath = `${this.settings.metadataPath}/Twitter.md`;
-				if (await this.app.vault.adapter.exists(mdPath)) {
-					const fileContent = await this.app.vault.adapter.read(mdPath);
-					const lines = fileContent.split('\n');
-					if (lines[0] && lines[0].trim() !== "") {
-						return lines[0];
-					}
-				}
-				return "no username found";
+				heading.textContent = year;
 			}
+			container.appendChild(heading);
+
+			const account = await this.account.info(new Date(group.day));
+			group.tweets.forEach(tweet => {
+				const card = this.renderTweetCard(tweet, account);
+				this.tweetMenu.attach(card, tweet, account);
+				container.appendChild(card);
+			});
+		}
+
+		const random = document.createElement('button');
+		random.textContent = 'Open a random day with tweets';
+		random.addEventListener('click', () => this.openRandomDay());
+		container.appendChild(random);
+	}
+
+	// the heatmap and tables for `stats: <year>` or `stats: all`
+	async renderStats(element: HTMLElement, year: string, filePath: string, component: Component) {
+		let entries = await this.statsEntries();
+		if (year !== 'all') {
+			entries = entries.filter(entry => entry.day.startsWith(year));
+		}
+		const stats = computeStats(entries, this.timeZone());
+
+		const container = document.createElement('div');
+		container.className = 'twitter-diary-stats';
+		element.appendChild(container);
+
+		if (year !== 'all') {
+			renderHeatmap(container, stats.perDay, year, day => this.openDailyNote(day));
 		}
+		const tables = document.createElement('div');
+		container.appendChild(tables);
+		await MarkdownRenderer.renderMarkdown(statsToMarkdown(stats, year === 'all' ? 'All tweets' : `Tweets in ${year}`), tables, filePath, component);
 	}
 
 	/**
-	 * Gets the handle for a specific date
+	 * Renders a ```twitter-diary block
 	 */
-	async getHandle(date: Date): Promise < string > {
-		let offset = 0;
-		while (true) {
-			let folderPath = await this.getFolderForDate(date, offset);
-			if (folderPath) {
-				const mdPath = `${this.settings.metadataPath}/${folderPath}/${folderPath}.md`;
-				if (await this.app.vault.adapter.exists(mdPath)) {
-					const fileContent = await this.app.vault.adapter.read(mdPath);
-					const lines = fileContent.split('\n');
-					if (lines[1] && lines[1].trim() !== "") {
-						return lines[1];
-					}
-				}
-				offset++;
-			} else {
-				const mdPath = `${this.settings.metadataPath}/Twitter.md`;
-				if (await this.app.vault.adapter.exists(mdPath)) {
-					const fileContent = await this.app.vault.adapter.read(mdPath);
-					const lines = fileContent.split('\n');
-					if (lines[1] && lines[1].trim() !== "") {
-						return lines[1];
-					}
-				}
-				return "cannotfindhandle";
+	async renderDiaryBlock(source: string, element: HTMLElement, filePath: string, component: Component) {
+		let options: DiaryBlockOptions;
+		try {
+			options = parseBlockOptions(source);
+		} catch (error) {
+			this.renderBlockError(element, error.message);
+			return;
+		}
+
+		if (options.stats) {
+			await this.renderStats(element, options.stats, filePath, component);
+			return;
+		}
+
+		const noteDay = this.noteDay(filePath);
+		if (options.onThisDay) {
+			const day = options.date || noteDay || this.today();
+			await this.renderOnThisDay(element, day);
+			return;
+		}
+
+		// weekly and monthly notes default to their whole period
+		const note = this.notes.parse(filePath);
+		const from = options.date || options.from || options.to || (note ? note.from : noteDay);
+		const to = options.date || options.to || options.from || (note ? note.to : noteDay);
+		if (!from || !to) {
+			this.renderBlockError(element, 'no date given and the note name isn\'t a date');
+			return;
+		}
+
+		const filter = this.blockFilter(options);
+		const query = options.query && options.query.toLowerCase();
+		let days: { day: string, tweets: Tweet[] }[];
+		try {
+			days = await this.getTweetsForRange(from, to, filter);
+		} catch (error) {
+			this.renderBlockError(element, error.message);
+			console.error('Error fetching tweets:', error);
+			return;
+		}
+
+		let entries: { tweet: Tweet, account: AccountInfo }[] = [];
+		for (let { day, tweets } of days) {
+			if (query) {
+				tweets = tweets.filter(tweet => tweet.text.toLowerCase().includes(query));
 			}
+			if (tweets.length === 0) continue;
+
+			// the account looked different on different days
+			const dayAccount = await this.account.info(new Date(day));
+			entries = entries.concat(tweets.map(tweet => ({ tweet, account: dayAccount })));
 		}
+
+		// days were added oldest first, so ranges need sorting as a whole
+		this.sortEntries(entries, options.sort || this.settings.tweetOrder);
+		if (options.limit) {
+			entries = entries.slice(0, options.limit);
+		}
+
+		this.renderTweets(element, entries, options.layout || this.settings.layout, options.group || this.settings.timeGrouping);
+		await this.renderActivity(element, eachDay(from, to), filter);
 	}
 
-	async injectTwitterContent(element: HTMLElement, filePath: string) {
+	/**
+	 * Sorts tweets from several days at once, in place
+	 */
+	sortEntries<T extends { tweet: Tweet }>(entries: T[], order: 'oldest' | 'newest'): T[] {
+		const direction = order === 'newest' ? -1 : 1;
+		return entries.sort((a, b) => direction * compareTweets(a.tweet, b.tweet));
+	}
+
+	/**
+	 * Renders tweets in `layout`, with a date separator between days when
+	 * there's more than one and headers for the time of day if grouped
+	 */
+	renderTweets(
+		element: HTMLElement,
+		entries: { tweet: Tweet, account: AccountInfo }[],
+		layout: BlockLayout,
+		grouping: TimeGrouping = this.settings.timeGrouping,
+	) {
+		const timeZone = this.timeZone();
+
+		// pinned tweets go above everything, outside the date and time headers
+		const pinned = entries.filter(({ tweet }) => this.tweetMenu.isPinned(tweet.id));
+		if (pinned.length > 0) {
+			element.appendChild(this.renderHeader('tweet-pinned-header', 'Pinned'));
+			this.renderTweetRun(element, pinned, layout);
+			entries = entries.filter(({ tweet }) => !this.tweetMenu.isPinned(tweet.id));
+		}
+
+		const days = entries.map(({ tweet }) => this.toDiaryDay(tweet.timestamp));
+		const multipleDays = days.some(day => day !== days[0]);
+
+		let run: { tweet: Tweet, account: AccountInfo }[] = [];
+		let lastDay = '';
+		let lastGroup = '';
+		entries.forEach((entry, index) => {
+			const day = days[index];
+			const group = grouping === 'part-of-day' ? partOfDay(entry.tweet.timestamp, timeZone)
+				: grouping === 'hour' ? formatHour(entry.tweet.timestamp, timeZone)
+				: '';
+
+			if (multipleDays && day !== lastDay) {
+				this.renderTweetRun(element, run, layout);
+				run = [];
+				element.appendChild(this.renderHeader('tweet-date-separator', formatDay(day)));
+				lastGroup = '';
+			}
+			if (group && group !== lastGroup) {
+				this.renderTweetRun(element, run, layout);
+				run = [];
+				element.appendChild(this.renderHeader('tweet-time-group', group));
+			}
+
+			lastDay = day;
+			lastGroup = group;
+			run.push(entry);
+		});
+		this.renderTweetRun(element, run, layout);
+	}
+
+	renderHeader(className: string, text: string): HTMLElement {
+		const header = document.createElement('div');
+		header.className = className;
+		header.textContent = text;
+		return header;
+	}
+
+	renderTweetRun(element: HTMLElement, entries: { tweet: Tweet, account: AccountInfo }[], layout: BlockLayout) {
+		if (entries.length === 0) return;
+
+		if (layout === 'list') {
+			const list = document.createElement('ul');
+			list.className = 'tweet-list';
+			entries.forEach(({ tweet, account }) => {
+				const line = this.renderTweetLine(tweet, 'li');
+				this.tweetMenu.attach(line, tweet, account);
+				list.appendChild(line);
+			});
+			element.appendChild(list);
+		} else if (layout === 'timeline') {
+			const timeline = document.createElement('div');
+			timeline.className = 'tweet-timeline';
+			entries.forEach(({ tweet, account }) => {
+				const item = document.createElement('div');
+				item.className = 'tweet-timeline-item';
+
+				const time = document.createElement('div');
+				time.className = 'tweet-timeline-time';
+				time.textContent = formatTime(tweet.timestamp, this.timeZone());
+
+				const card = this.renderTweetCard(tweet, account);
+				this.tweetMenu.attach(card, tweet, account);
+				item.appendChild(time);
+				item.appendChild(card);
+				timeline.appendChild(item);
+			});
+			element.appendChild(timeline);
+		} else {
+			entries.forEach(({ tweet, account }) => {
+				const rendered = layout === 'compact' ? this.renderTweetLine(tweet, 'div') : this.renderTweetCard(tweet, account);
+				this.tweetMenu.attach(rendered, tweet, account);
+				element.appendChild(rendered);
+			});
+		}
+	}
+
+	blockFilter(options: DiaryBlockOptions): TweetFilter {
+		const include = options.include;
+		if (!include) return this.settings;
+
+		return {
+			includeReplies: include.indexOf('replies') !== -1,
+			includeThreads: include.indexOf('threads') !== -1,
+			includeRetweets: include.indexOf('retweets') !== -1,
+			includeQuoteTweets: include.indexOf('quotes') !== -1,
+			includeDeletedTweets: include.indexOf('deleted') !== -1,
+			includeLikes: include.indexOf('likes') !== -1,
+			includeBookmarks: include.indexOf('bookmarks') !== -1,
+			includeDirectMessages: include.indexOf('messages') !== -1,
+		};
+	}
+
+	/**
+	 * "Liked today", "Bookmarked" and "Conversations" sections for `days`,
+	 * whichever `filter` turns on. DMs start out collapsed
+	 */
+	async renderActivity(element: HTMLElement, days: string[], filter: TweetFilter) {
+		if (!filter.includeLikes && !filter.includeBookmarks && !filter.includeDirectMessages) return;
+
+		const activity: DayActivity = { likes: [], bookmarks: [], messages: [] };
 		try {
-			const filename = path.basename(filePath, '.md');
-			const date = new Date(filename);
+			for (const day of days) {
+				const dayActivity = await this.archive.getActivityForDay(day);
+				activity.likes = activity.likes.concat(dayActivity.likes);
+				activity.bookmarks = activity.bookmarks.concat(dayActivity.bookmarks);
+				activity.messages = activity.messages.concat(dayActivity.messages);
+			}
+		} catch (error) {
+			console.error('Error loading likes, bookmarks and DMs:', error);
+			return;
+		}
 
-			if (!isNaN(date.getTime())) {
+		if (filter.includeLikes && activity.likes.length > 0) {
+			const section = this.renderSection(days.length === 1 ? 'Liked today' : 'Liked');
+			activity.likes.forEach(like => section.appendChild(this.renderSavedTweet(like, 'Liked')));
+			element.appendChild(section);
+		}
 
-				const tweets = await this.getTweetsForDate(date);
-				let myAvatar = await this.getAvatar(date);
-				let myUsername = await this.getUsername(date);
-				let myHandle = await this.getHandle(date);
-				let myCurrentHandle = await this.getHandle(new Date());
+		if (filter.includeBookmarks && activity.bookmarks.length > 0) {
+			const section = this.renderSection('Bookmarked');
+			activity.bookmarks.forEach(bookmark => section.appendChild(this.renderSavedTweet(bookmark, 'Bookmarked')));
+			element.appendChild(section);
+		}
 
+		if (filter.includeDirectMessages && activity.messages.length > 0) {
+			element.appendChild(this.renderConversations(activity.messages, await this.account.accountId()));
+		}
+	}
 
+	renderSection(title: string): HTMLElement {
+		const section = document.createElement('div');
+		section.className = 'tweet-section';
 
-				for (let i in tweets) {
-					const tweet = tweets[i];
-					const tweetContainer = document.createElement('div');
-					tweetContainer.className = 'tweet-container';
-					tweetContainer.style.cssText = 'border: 1px solid #e1e8ed; border-radius: 12px; padding: 16px; margin-bottom: 16px; max-width: 500px; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; background-color: #fff;';
-
-					const header = document.createElement('div');
-					header.className = 'tweet-header';
-					header.style.cssText = 'display: flex; align-items: center; margin-bottom: 12px;';
-
-					const avatar = document.createElement('img');
-					avatar.src = myAvatar;
-					avatar.style.cssText = 'width: 48px; height: 48px; border-radius: 50%; margin-right: 12px;';
-
-					const userInfo = document.createElement('div');
-					const username = document.createElement('div');
-					username.textContent = myUsername;
-					username.style.cssText = 'font-weight: bold; color: #14171a; font-size: 15px;';
-
-					const handle = document.createElement('div');
-					handle.textContent = "@" + myHandle;
-					handle.style.cssText = 'color: #657786; font-size: 14px;';
-
-					userInfo.appendChild(username);
-					userInfo.appendChild(handle);
-
-					header.appendChild(avatar);
-					header.appendChild(userInfo);
-
-					const content = document.createElement('div');
-					content.className = 'tweet-content';
-
-
-					// #blue
-
-					let tweetText = tweet.text;
-					tweetText = tweetText.replace(/#(\w+)/g, '<span style="color: #1DA1F2; font-weight: 500;">#$1</span>');
-					tweetText = tweetText.replace(/@(\w+)/g, '<span style="color: #1DA1F2; font-weight: 500;">@$1</span>');
-					tweetText = tweetText.replace(/[\u200B]+([A-Za-z0-9+/=]+)[\u200B]+/g, (match, content) => {try {return Buffer.from(content, "base64").toString("utf8");} catch (e) {return content;}});
-					
-					// urls
-					const mediaUrlRegex = /https:\/\/t\.co\/\w+/g;
-					const mediaUrls = tweet.text.match(mediaUrlRegex) || [];
-
-					if (mediaUrls.length > 0) {
-						for (const url of mediaUrls) {
-							tweetText = tweetText.replace(url, '');
-						}
-						tweetText = tweetText.trim();
-					}
-
-					content.innerHTML = tweetText;
-					content.style.cssText = 'margin-bottom: 12px; line-height: 1.4; font-size: 16px; color: #14171a; white-space: pre-wrap; word-wrap: break-word;';
-
-					// footer
-					const statsContainer = document.createElement('div');
-					statsContainer.className = 'tweet-stats';
-					statsContainer.style.cssText = 'display: flex; margin-top: 12px; border-top: 1px solid #e1e8ed; padding-top: 12px;';
-
-					// rt
-					const retweetsContainer = document.createElement('div');
-					retweetsContainer.style.cssText = 'display: flex; align-items: center; margin-right: 24px; color: #657786;';
-					retweetsContainer.innerHTML = '<svg viewBox="0 0 24 24" width="18" height="18" fill="#657786"><g><path d="M23.77 15.67c-.292-.293-.767-.293-1.06 0l-2.22 2.22V7.65c0-2.068-1.683-3.75-3.75-3.75h-5.85c-.414 0-.75.336-.75.75s.336.75.75.75h5.85c1.24 0 2.25 1.01 2.25 2.25v10.24l-2.22-2.22c-.293-.293-.768-.293-1.06 0s-.294.768 0 1.06l3.5 3.5c.145.147.337.22.53.22s.383-.072.53-.22l3.5-3.5c.294-.292.294-.767 0-1.06zm-10.66 3.28H7.26c-1.24 0-2.25-1.01-2.25-2.25V6.46l2.22 2.22c.148.147.34.22.532.22s.384-.073.53-.22c.293-.293.293-.768 0-1.06l-3.5-3.5c-.293-.294-.768-.294-1.06 0l-3.5 3.5c-.294.292-.294.767 0 1.06s.767.293 1.06 0l2.22-2.22V16.7c0 2.068 1.683 3.75 3.75 3.75h5.85c.414 0 .75-.336.75-.75s-.336-.75-.75-.75z"></path></g></svg>' +
-						'<span style="margin-left: 6px; font-size: 14px;">' + tweet.retweets + '</span>';
-
-					// likes
-					const likesContainer = document.createElement('div');
-					likesContainer.style.cssText = 'display: flex; align-items: center; margin-right: 24px; color: #657786;';
-					likesContainer.innerHTML = '<svg viewBox="0 0 24 24" width="18" height="18" fill="#657786"><g><path d="M12 21.638h-.014C9.403 21.59 1.95 14.856 1.95 8.478c0-3.064 2.525-5.754 5.403-5.754 2.29 0 3.83 1.58 4.646 2.73.814-1.148 2.354-2.73 4.645-2.73 2.88 0 5.404 2.69 5.404 5.755 0 6.376-7.454 13.11-10.037 13.157H12zM7.354 4.225c-2.08 0-3.903 1.988-3.903 4.255 0 5.74 7.034 11.596 8.55 11.658 1.518-.062 8.55-5.917 8.55-11.658 0-2.267-1.823-4.255-3.903-4.255-2.528 0-3.94 2.936-3.952 2.965-.23.562-1.156.562-1.387 0-.014-.03-1.425-2.965-3.954-2.965z"></path></g></svg>' +
-						'<span style="margin-left: 6px; font-size: 14px;">' + tweet.likes + '</span>';
-
-					// Share icon
-					const shareContainer = document.createElement('div');
-					shareContainer.style.cssText = 'display: flex; align-items: center; color: #657786;';
-
-					shareContainer.innerHTML = '<a href="' + "https://x.com/" + myCurrentHandle + "/status/" + tweet.id + '" style="display: inline-flex; align-items: center;"><svg style="vertical-align: middle;" viewBox="0 0 24 24" width="18" height="18" fill="#657786"><g><path d="M17.53 7.47l-5-5c-.293-.293-.768-.293-1.06 0l-5 5c-.294.293-.294.768 0 1.06s.767.294 1.06 0l3.72-3.72V15c0 .414.336.75.75.75s.75-.336.75-.75V4.81l3.72 3.72c.146.147.338.22.53.22s.384-.072.53-.22c.293-.293.293-.767 0-1.06z"></path><path d="M19.708 21.944H4.292C3.028 21.944 2 20.916 2 19.652V14c0-.414.336-.75.75-.75s.75.336.75.75v5.652c0 .437.355.792.792.792h15.416c.437 0 .792-.355.792-.792V14c0-.414.336-.75.75-.75s.75.336.75.75v5.652c0 1.264-1.028 2.292-2.292 2.292z"></path></g></svg></a>';
-
-					statsContainer.appendChild(retweetsContainer);
-					statsContainer.appendChild(likesContainer);
-					statsContainer.appendChild(shareContainer);
-
-
-					const mediaContainer = document.createElement('div');
-					if (tweet.media && tweet.media.length > 0) {
-						mediaContainer.className = 'tweet-media';
-						mediaContainer.style.cssText = 'margin-top: 10px; margin-bottom: 12px; border-radius: 14px; overflow: hidden;';
-
-						// stupid grid thing
-						if (tweet.media.length === 1) {
-							// one media
-							const mediaWrapper = document.createElement('div');
-							mediaWrapper.style.cssText = 'border-radius: 14px; overflow: hidden; border: 1px solid #e1e8ed;';
-
-							if (tweet.media[0].includes('.mp4')) {
-								// vid
-								const video = document.createElement('video');
-								video.controls = true;
-								video.autoplay = false;
-								video.loop = true;
-								video.muted = true;
-								video.src = tweet.media[0];
-								video.style.cssText = 'width: 100%; max-height: 400px; display: block; object-fit: cover;';
-								mediaWrapper.appendChild(video);
-							} else {
-								// img
-								const img = document.createElement('img');
-								img.src = tweet.media[0];
-								img.style.cssText = 'width: 100%; max-height: 400px; display: block; object-fit: cover;';
-								mediaWrapper.appendChild(img);
-							}
-
-							mediaContainer.appendChild(mediaWrapper);
-						} else if (tweet.media.length === 2) {
-							// i stg
-							const gridContainer = document.createElement('div');
-							gridContainer.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr; grid-gap: 2px; border-radius: 14px; overflow: hidden; border: 1px solid #e1e8ed;';
-
-							tweet.media.forEach((mediaUrl, index) => {
-								const mediaWrapper = document.createElement('div');
-								mediaWrapper.style.cssText = 'aspect-ratio: 1/1; overflow: hidden;';
-
-								if (mediaUrl.includes('.mp4')) {
-									const video = document.createElement('video');
-									video.controls = true;
-									video.autoplay = false;
-									video.loop = true;
-									video.muted = true;
-									video.src = mediaUrl;
-									video.style.cssText = 'width: 100%; height: 100%; object-fit: cover;';
-									mediaWrapper.appendChild(video);
-								} else {
-									const img = document.createElement('img');
-									img.src = mediaUrl;
-									img.style.cssText = 'width: 100%; height: 100%; object-fit: cover;';
-									mediaWrapper.appendChild(img);
-								}
-
-								gridContainer.appendChild(mediaWrapper);
-							});
-
-							mediaContainer.appendChild(gridContainer);
-						} else if (tweet.media.length === 3) {
-							// 3 so 1 large 2 small
-							const gridContainer = document.createElement('div');
-							gridContainer.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr; grid-template-rows: 1fr 1fr; grid-gap: 2px; border-radius: 14px; overflow: hidden; border: 1px solid #e1e8ed; height: 300px;';
-
-							tweet.media.forEach((mediaUrl, index) => {
-								const mediaWrapper = document.createElement('div');
-
-
-								mediaWrapper.style.cssText = 'overflow: hidden;';
-								if (index === 0) { mediaWrapper.style.cssText = 'grid-row: span 2; overflow: hidden;'; }
-
-								if (mediaUrl.includes('.mp4')) {
-									const video = document.createElement('video');
-									video.controls = true;
-									video.autoplay = false;
-									video.loop = true;
-									video.muted = true;
-									video.src = mediaUrl;
-									video.style.cssText = 'width: 100%; height: 100%; object-fit: cover;';
-									mediaWrapper.appendChild(video);
-								} else {
-									const img = document.createElement('img');
-									img.src = mediaUrl;
-									img.style.cssText = 'width: 100%; height: 100%; object-fit: cover;';
-									mediaWrapper.appendChild(img);
-								}
-
-								gridContainer.appendChild(mediaWrapper);
-							});
-
-							mediaContainer.appendChild(gridContainer);
-						} else if (tweet.media.length === 4) {
-							// 2x2 oh my god
-							const gridContainer = document.createElement('div');
-							gridContainer.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr; grid-template-rows: 1fr 1fr; grid-gap: 2px; border-radius: 14px; overflow: hidden; border: 1px solid #e1e8ed; height: 300px;';
-
-							tweet.media.forEach((mediaUrl, index) => {
-								const mediaWrapper = document.createElement('div');
-								mediaWrapper.style.cssText = 'overflow: hidden;';
-
-								if (mediaUrl.includes('.mp4')) {
-									const video = document.createElement('video');
-									video.controls = true;
-									video.autoplay = false;
-									video.loop = true;
-									video.muted = true;
-									video.src = mediaUrl;
-									video.style.cssText = 'width: 100%; height: 100%; object-fit: cover;';
-									mediaWrapper.appendChild(video);
-								} else {
-									const img = document.createElement('img');
-									img.src = mediaUrl;
-									img.style.cssText = 'width: 100%; height: 100%; object-fit: cover;';
-									mediaWrapper.appendChild(img);
-								}
-
-								gridContainer.appendChild(mediaWrapper);
-							});
-
-							mediaContainer.appendChild(gridContainer);
-						} else {
-							// woooooooooo (almost done)
-							const gridContainer = document.createElement('div');
-							gridContainer.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr; grid-template-rows: 1fr 1fr; grid-gap: 2px; border-radius: 14px; overflow: hidden; border: 1px solid #e1e8ed; height: 300px;';
-
-							// only process 4 lol
-							tweet.media.slice(0, 4).forEach((mediaUrl, index) => {
-								const mediaWrapper = document.createElement('div');
-								mediaWrapper.style.cssText = 'overflow: hidden; position: relative;';
-
-								if (mediaUrl.includes('.mp4')) {
-									const video = document.createElement('video');
-									video.controls = true;
-									video.autoplay = false;
-									video.loop = true;
-									video.muted = true;
-									video.src = mediaUrl;
-									video.style.cssText = 'width: 100%; height: 100%; object-fit: cover;';
-									mediaWrapper.appendChild(video);
-								} else {
-									const img = document.createElement('img');
-									img.src = mediaUrl;
-									img.style.cssText = 'width: 100%; height: 100%; object-fit: cover;';
-									mediaWrapper.appendChild(img);
-								}
-
-								// Add overlay for the last visible image if there are more
-								if (index === 3 && tweet.media.length > 4) {
-									const overlay = document.createElement('div');
-									overlay.style.cssText = 'position: absolute; top: 0; left: 0; width: 100%; height: 100%; background-color: rgba(0, 0, 0, 0.5); display: flex; justify-content: center; align-items: center;';
-
-									const overlayText = document.createElement('div');
-									overlayText.textContent = '+' + (tweet.media.length - 4);
-									overlayText.style.cssText = 'color: white; font-size: 24px; font-weight: bold;';
-
-									overlay.appendChild(overlayText);
-									mediaWrapper.appendChild(overlay);
-								}
-
-								gridContainer.appendChild(mediaWrapper);
-							});
-
-							mediaContainer.appendChild(gridContainer);
-						}
-					}
-
-
-
-
-					// Timestamp
-					const timestampContainer = document.createElement('div');
-					timestampContainer.className = 'tweet-timestamp';
-
-					const tweetDate = new Date(tweet.timestamp);
-					const formattedDate = tweetDate.toLocaleString('en-US', {
-						hour: 'numeric',
-						minute: 'numeric',
-						hour12: true,
-						day: 'numeric',
-						month: 'short',
-						year: 'numeric'
-					});
-
-					timestampContainer.textContent = formattedDate;
-					timestampContainer.style.cssText = 'color: #657786; font-size: 14px; margin-top: 12px;';
-
-					tweetContainer.appendChild(header);
-					tweetContainer.appendChild(content);
-					if (tweet.media && tweet.media.length > 0) {
-						tweetContainer.appendChild(mediaContainer);
-					}
+		const heading = document.createElement('h4');
+		heading.className = 'tweet-section-heading';
+		heading.textContent = title;
+		section.appendChild(heading);
 
-					tweetContainer.appendChild(statsContainer);
-					tweetContainer.appendChild(timestampContainer);
+		return section;
+	}
 
-					element.appendChild(tweetContainer);
-				}
-				if (tweets.length == 0) {
-					// new Notice("No tweets today!");
+	/**
+	 * A liked or bookmarked tweet. All we have is its text and a link, so it gets a lighter card
+	 */
+	renderSavedTweet(saved: SavedTweet, verb: string): HTMLElement {
+		const card = document.createElement('div');
+		card.className = 'tweet-saved';
+
+		const text = document.createElement('div');
+		text.className = 'tweet-content';
+		text.textContent = decodeEntities(saved.text);
+		card.appendChild(text);
+
+		const footer = document.createElement('div');
+		footer.className = 'tweet-saved-footer';
+
+		// estimated dates are only good to the day, see parseSavedTweets
+		const when = document.createElement('span');
+		when.className = 'tweet-timestamp';
+		when.textContent = saved.estimated
+			? `${verb} around ${this.toDiaryDay(saved.timestamp)}`
+			: `${verb} ${formatTimestamp(saved.timestamp, this.timeZone())}`;
+		footer.appendChild(when);
+		if (isSafeUrl(saved.url)) {
+			footer.appendChild(this.renderTextLink('View on X', saved.url));
+		}
+		card.appendChild(footer);
+
+		return card;
+	}
+
+	/**
+	 * DMs grouped by conversation as chat bubbles, ours on the right.
+	 * Collapsed so they don't show up on screen by accident
+	 */
+	renderConversations(messages: DirectMessage[], accountId: string): HTMLElement {
+		const details = document.createElement('details');
+		details.className = 'tweet-conversations';
+
+		const summary = document.createElement('summary');
+		summary.textContent = `Conversations (${messages.length} message${messages.length === 1 ? '' : 's'})`;
+		details.appendChild(summary);
+
+		const conversations = new Map<string, DirectMessage[]>();
+		messages
+			.slice()
+			.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+			.forEach(message => {
+				const list = conversations.get(message.conversationId) || [];
+				list.push(message);
+				conversations.set(message.conversationId, list);
+			});
+
+		conversations.forEach((conversation, conversationId) => {
+			// one-to-one conversation IDs are the two account IDs joined with a dash
+			const others = conversationId.split('-').filter(id => id !== accountId);
+			const isGroup = conversationId.indexOf('-') === -1;
+
+			const container = document.createElement('div');
+			container.className = 'tweet-conversation';
+
+			const title = document.createElement('div');
+			title.className = 'tweet-conversation-title';
+			if (conversation[0].conversationName || isGroup) {
+				title.textContent = conversation[0].conversationName || 'Group conversation';
+			} else {
+				title.appendChild(document.createTextNode('With '));
+				title.appendChild(this.renderTextLink('user ' + others[0], 'https://x.com/i/user/' + others[0]));
+			}
+			container.appendChild(title);
+
+			for (const message of conversation) {
+				const ours = message.senderId === accountId;
+
+				const bubble = document.createElement('div');
+				bubble.className = ours ? 'tweet-message tweet-message-ours' : 'tweet-message';
+
+				if (isGroup && !ours) {
+					const sender = document.createElement('div');
+					sender.textContent = 'user ' + message.senderId;
+					sender.className = 'tweet-message-sender';
+					bubble.appendChild(sender);
 				}
+
+				const text = document.createElement('div');
+				text.textContent = decodeEntities(message.text);
+				text.className = 'tweet-message-text';
+				bubble.appendChild(text);
+
+				const time = document.createElement('div');
+				time.textContent = formatTimestamp(message.timestamp, this.timeZone())
+					+ (message.media.length > 0 ? ` · ${message.media.length} attachment${message.media.length === 1 ? '' : 's'} not shown` : '');
+				time.className = 'tweet-message-time';
+				bubble.appendChild(time);
+
+				container.appendChild(bubble);
 			}
-		} catch (error) {
-			console.error('Error injecting Twitter content:', error);
+
+			details.appendChild(container);
+		});
+
+		return details;
+	}
+
+	renderBlockError(element: HTMLElement, message: string) {
+		const error = document.createElement('div');
+		error.className = 'twitter-diary-error';
+		error.textContent = 'twitter-diary: ' + message;
+		element.appendChild(error);
+	}
+
+	/**
+	 * A single line with the time and text of a tweet, for compact and list layouts
+	 */
+	renderTweetLine(tweet: Tweet, tagName: 'div' | 'li'): HTMLElement {
+		const line = document.createElement(tagName);
+		line.className = 'tweet-line';
+
+		const time = document.createElement('a');
+		time.className = 'tweet-timestamp';
+		if (isSafeUrl(tweet.url)) time.href = tweet.url;
+		time.textContent = formatTimestamp(tweet.timestamp, this.timeZone());
+
+		const text = document.createElement('span');
+		text.textContent = tweet.text;
+
+		line.appendChild(time);
+		if (tweet.network !== 'twitter') line.appendChild(this.renderNetworkBadge(tweet.network));
+		line.appendChild(text);
+		return line;
+	}
+
+	/**
+	 * Builds the card for a single tweet
+	 */
+	renderTweetCard(tweet: Tweet, account: AccountInfo): HTMLElement {
+		const tweetContainer = document.createElement('div');
+		tweetContainer.className = 'tweet-container';
+		// posts from other networks bring their own account
+		const author = tweet.author || account;
+
+		const header = document.createElement('div');
+		header.className = 'tweet-header';
+
+		const avatar = document.createElement('img');
+		avatar.src = author.avatar;
+		avatar.className = 'tweet-avatar';
+
+		const userInfo = document.createElement('div');
+		userInfo.className = 'tweet-user';
+		const username = document.createElement('div');
+		username.textContent = author.username;
+		username.className = 'tweet-username';
+
+		const handle = document.createElement('div');
+		handle.textContent = author.handle ? "@" + author.handle : "";
+		handle.className = 'tweet-handle';
+
+		userInfo.appendChild(username);
+		userInfo.appendChild(handle);
+
+		if (tweet.retweetOf) {
+			// we only know the original author's handle, not their name or avatar
+			username.textContent = "@" + tweet.retweetOf;
+			handle.textContent = "";
+		} else if (author.avatar && this.settings.showAvatars) {
+			header.appendChild(avatar);
+		}
+		header.appendChild(userInfo);
+
+		// deleted first, the network badge sits right next to it
+		if (tweet.deleted) {
+			const deletedBadge = document.createElement('div');
+			deletedBadge.className = 'tweet-deleted';
+			deletedBadge.textContent = 'Deleted';
+			header.appendChild(deletedBadge);
+		}
+
+		if (tweet.network !== 'twitter') {
+			header.appendChild(this.renderNetworkBadge(tweet.network));
+		}
+
+		// footer
+		const statsContainer = document.createElement('div');
+		statsContainer.className = 'tweet-stats';
+
+		// rt
+		const retweetsContainer = document.createElement('div');
+		retweetsContainer.className = 'tweet-stat tweet-retweets';
+		retweetsContainer.innerHTML = '<svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor"><g><path d="M23.77 15.67c-.292-.293-.767-.293-1.06 0l-2.22 2.22V7.65c0-2.068-1.683-3.75-3.75-3.75h-5.85c-.414 0-.75.336-.75.75s.336.75.75.75h5.85c1.24 0 2.25 1.01 2.25 2.25v10.24l-2.22-2.22c-.293-.293-.768-.293-1.06 0s-.294.768 0 1.06l3.5 3.5c.145.147.337.22.53.22s.383-.072.53-.22l3.5-3.5c.294-.292.294-.767 0-1.06zm-10.66 3.28H7.26c-1.24 0-2.25-1.01-2.25-2.25V6.46l2.22 2.22c.148.147.34.22.532.22s.384-.073.53-.22c.293-.293.293-.768 0-1.06l-3.5-3.5c-.293-.294-.768-.294-1.06 0l-3.5 3.5c-.294.292-.294.767 0 1.06s.767.293 1.06 0l2.22-2.22V16.7c0 2.068 1.683 3.75 3.75 3.75h5.85c.414 0 .75-.336.75-.75s-.336-.75-.75-.75z"></path></g></svg>';
+		retweetsContainer.appendChild(this.renderStatCount(tweet.retweets));
+
+		// likes
+		const likesContainer = document.createElement('div');
+		likesContainer.className = 'tweet-stat tweet-likes';
+		likesContainer.innerHTML = '<svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor"><g><path d="M12 21.638h-.014C9.403 21.59 1.95 14.856 1.95 8.478c0-3.064 2.525-5.754 5.403-5.754 2.29 0 3.83 1.58 4.646 2.73.814-1.148 2.354-2.73 4.645-2.73 2.88 0 5.404 2.69 5.404 5.755 0 6.376-7.454 13.11-10.037 13.157H12zM7.354 4.225c-2.08 0-3.903 1.988-3.903 4.255 0 5.74 7.034 11.596 8.55 11.658 1.518-.062 8.55-5.917 8.55-11.658 0-2.267-1.823-4.255-3.903-4.255-2.528 0-3.94 2.936-3.952 2.965-.23.562-1.156.562-1.387 0-.014-.03-1.425-2.965-3.954-2.965z"></path></g></svg>';
+		likesContainer.appendChild(this.renderStatCount(tweet.likes));
+
+		// Share icon
+		const shareContainer = document.createElement('div');
+		shareContainer.className = 'tweet-stat tweet-share';
+
+		// tweets from feeds and other networks bring their own URL, only link http(s) ones
+		const shareLink = document.createElement('a');
+		const shareUrl = this.shareUrl(tweet, account);
+		if (isSafeUrl(shareUrl)) shareLink.href = shareUrl;
+		shareLink.innerHTML = '<svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor"><g><path d="M17.53 7.47l-5-5c-.293-.293-.768-.293-1.06 0l-5 5c-.294.293-.294.768 0 1.06s.767.294 1.06 0l3.72-3.72V15c0 .414.336.75.75.75s.75-.336.75-.75V4.81l3.72 3.72c.146.147.338.22.53.22s.384-.072.53-.22c.293-.293.293-.767 0-1.06z"></path><path d="M19.708 21.944H4.292C3.028 21.944 2 20.916 2 19.652V14c0-.414.336-.75.75-.75s.75.336.75.75v5.652c0 .437.355.792.792.792h15.416c.437 0 .792-.355.792-.792V14c0-.414.336-.75.75-.75s.75.336.75.75v5.652c0 1.264-1.028 2.292-2.292 2.292z"></path></g></svg>';
+		shareContainer.appendChild(shareLink);
+
+		statsContainer.appendChild(retweetsContainer);
+		statsContainer.appendChild(likesContainer);
+		statsContainer.appendChild(shareContainer);
+
+
+		// Timestamp
+		const timestampContainer = document.createElement('div');
+		timestampContainer.className = 'tweet-timestamp';
+
+		timestampContainer.textContent = formatTimestamp(tweet.timestamp, this.timeZone());
+
+		if (tweet.retweetOf) {
+			const repostedLabel = document.createElement('div');
+			repostedLabel.className = 'tweet-reposted';
+			repostedLabel.textContent = 'You reposted';
+			tweetContainer.appendChild(repostedLabel);
+		}
+
+		tweetContainer.appendChild(header);
+
+		if (tweet.replyTo && tweet.replyTo.handle) {
+			const replyingTo = document.createElement('div');
+			replyingTo.className = 'tweet-replying-to';
+			replyingTo.textContent = 'Replying to @' + tweet.replyTo.handle;
+			tweetContainer.appendChild(replyingTo);
+		}
+
+		tweetContainer.appendChild(this.renderTweetText(tweet));
+		if (tweet.media && tweet.media.length > 0 && this.settings.showMedia) {
+			tweetContainer.appendChild(this.renderTweetMedia(tweet.media));
+		}
+
+		if (tweet.quoted) {
+			tweetContainer.appendChild(this.renderQuotedTweet(tweet.quoted, account));
+		}
+
+		for (const part of tweet.thread) {
+			tweetContainer.appendChild(this.renderThreadPart(part));
+		}
+
+		if (this.settings.showStats) {
+			if (tweet.network !== 'twitter') {
+				// the exports don't have counts, just keep the link
+				statsContainer.removeChild(retweetsContainer);
+				statsContainer.removeChild(likesContainer);
+			}
+			tweetContainer.appendChild(statsContainer);
 		}
+		tweetContainer.appendChild(timestampContainer);
+
+		return tweetContainer;
+	}
+
+	// the count next to a stat icon
+	renderStatCount(count: number): HTMLElement {
+		const span = document.createElement('span');
+		span.className = 'tweet-stat-count';
+		span.textContent = String(count);
+		return span;
+	}
+
+	/**
+	 * Link for sharing a tweet, through the account's current handle since old ones don't resolve
+	 */
+	shareUrl(tweet: Tweet, account: AccountInfo): string {
+		return tweet.network === 'twitter' ? "https://x.com/" + account.currentHandle + "/status/" + tweet.id : tweet.url;
+	}
+
+	/**
+	 * Labels posts from Mastodon or Bluesky in a merged timeline
+	 */
+	renderNetworkBadge(network: Network): HTMLElement {
+		const badge = document.createElement('span');
+		badge.className = `tweet-network tweet-network-${network}`;
+		badge.textContent = NETWORK_NAMES[network];
+		return badge;
+	}
+
+	/**
+	 * Builds the tweet text from its tokens, nothing in the tweet is ever parsed as HTML
+	 */
+	renderTweetText(tweet: Tweet): HTMLElement {
+		const content = document.createElement('div');
+		content.className = 'tweet-content';
+
+		for (const token of tweet.tokens) {
+			switch (token.type) {
+				case 'text':
+					content.appendChild(document.createTextNode(token.text));
+					break;
+				case 'url':
+					content.appendChild(this.renderTextLink(token.display, isSafeUrl(token.url) ? token.url : null));
+					break;
+				case 'hashtag':
+					content.appendChild(this.renderTextLink('#' + token.text, linkTarget(this.settings.hashtagLinkTemplate, token.text)));
+					break;
+				case 'symbol':
+					content.appendChild(this.renderTextLink('$' + token.text, null));
+					break;
+				case 'mention':
+					content.appendChild(this.renderTextLink('@' + token.text, linkTarget(this.settings.mentionLinkTemplate, token.text)));
+					break;
+			}
+		}
+
+		return content;
+	}
+
+	// #blue
+	renderTextLink(text: string, href: string | null): HTMLElement {
+		const link = document.createElement(href ? 'a' : 'span');
+		if (link instanceof HTMLAnchorElement && href) link.href = href;
+		link.textContent = text;
+		link.className = 'tweet-link';
+		return link;
+	}
+
+	renderTweetMedia(media: TweetMedia[]): HTMLElement {
+		return renderMediaGrid(this.app, media);
+	}
+
+	/**
+	 * The quoted tweet, as a small card if it's one of ours or a link otherwise
+	 */
+	renderQuotedTweet(quoted: { url: string, tweet?: Tweet }, account: AccountInfo): HTMLElement {
+		const quoteContainer = document.createElement('div');
+		quoteContainer.className = 'tweet-quoted';
+
+		if (!quoted.tweet) {
+			const link = document.createElement('a');
+			if (isSafeUrl(quoted.url)) link.href = quoted.url;
+			link.textContent = quoted.url;
+			link.className = 'tweet-quoted-link';
+			quoteContainer.appendChild(link);
+			return quoteContainer;
+		}
+
+		const author = document.createElement('div');
+		author.textContent = account.username + ' @' + account.handle;
+		author.className = 'tweet-quoted-author';
+
+		quoteContainer.appendChild(author);
+		quoteContainer.appendChild(this.renderTweetText(quoted.tweet));
+		if (quoted.tweet.media.length > 0 && this.settings.showMedia) {
+			quoteContainer.appendChild(this.renderTweetMedia(quoted.tweet.media));
+		}
+		return quoteContainer;
 	}
 
-	async getTweetsForDate(date: Date): Promise < {
-		text: string,
-		timestamp: string,
-		likes: number,
-		retweets: number,
-		id: string,
-		media: string[]
-	} [] > {
+	/**
+	 * A later tweet in a self-reply thread, shown inside the first tweet's card
+	 */
+	renderThreadPart(tweet: Tweet): HTMLElement {
+		const part = document.createElement('div');
+		part.className = 'tweet-thread-part';
+
+		part.appendChild(this.renderTweetText(tweet));
+		if (tweet.media.length > 0 && this.settings.showMedia) {
+			part.appendChild(this.renderTweetMedia(tweet.media));
+		}
+
+		const timestamp = document.createElement('div');
+		timestamp.className = 'tweet-timestamp';
+		timestamp.textContent = formatTimestamp(tweet.timestamp, this.timeZone());
+		part.appendChild(timestamp);
+
+		return part;
+	}
+
+	async getTweetsForDate(date: Date, filter: TweetFilter = this.settings): Promise<Tweet[]> {
 		try {
-			// date in YYYY-MM-DD format
-			const dateString = date.toISOString().split('T')[0];
-			//new Notice("Fetching tweets for " + dateString.toString() + "...");
-			const tweetDataPath = path.join(this.settings.dataPath, 'tweets.js');
-			let tweetData = await fs.readFile(tweetDataPath, 'utf8');
-			tweetData = tweetData.replace(/^window\.YTD\.tweets\.part0\s*=\s*/, '');
-			const tweets = JSON.parse(tweetData);
-
-			return tweets
-				.filter((tweet: any) => {
-					const current = (this.toESTDateString(tweet.tweet.created_at) === dateString);
-					const notInReply = (tweet.tweet["in_reply_to_status_id"] == null);
-					const retweeted = (tweet.tweet['full_text'] && tweet.tweet['full_text'].startsWith("RT @"));
-					const quotingATweet = tweet.tweet.entities &&
-						tweet.tweet.entities.urls &&
-						tweet.tweet.entities.urls.some((url: {
-								expanded_url: string | string[];
-							}) =>
-							url.expanded_url &&
-							(url.expanded_url.includes('twitter.com') ||
-								url.expanded_url.includes('x.com'))
-						);
-
-					return current && notInReply && !retweeted && !quotingATweet;
-				})
-				.map((tweet: any) => {
-					const tweetObj = tweet.tweet;
-					const mediaUrls: string[] = [];
-
-					if (tweetObj.extended_entities && tweetObj.extended_entities.media) {
-						tweetObj.extended_entities.media.forEach((media: any) => {
-							if (media.type === 'photo') {
-								mediaUrls.push(media.media_url_https);
-							} else if (media.type === 'animated_gif' || media.type === 'video') {
-								if (media.video_info && media.video_info.variants && media.video_info.variants.length > 0) {
-									const sortedVariants = media.video_info.variants
-										.filter((variant: any) => variant.content_type === 'video/mp4')
-										.sort((a: any, b: any) => (b.bitrate || 0) - (a.bitrate || 0));
-
-									if (sortedVariants.length > 0) {
-										mediaUrls.push(sortedVariants[0].url);
-									}
-								}
-							}
-						});
-					}
-					
-					let content = tweetObj.full_text;
-					tweetObj.entities.urls.forEach((url: {expanded_url: string | string[]; url: string}) => {
-						// Replace t.co URL with expanded URL and style it
-						const shortUrl = url.url; // The t.co URL in the tweet text
-						const expandedUrl = Array.isArray(url.expanded_url) ? url.expanded_url[0] : url.expanded_url;
-						
-						content = content.replace(
-							shortUrl, 
-							// lol this is so dumb. i base64 the url and wrap it in a zwsp
-							`​${Buffer.from(`<a href="${expandedUrl}" style="color: #1DA1F2; font-weight: 500; text-decoration: none;">${expandedUrl}</a>`).toString('base64')}​`
-						);
-					});
-					
-					return {
-						text: content,
-						timestamp: tweetObj.created_at,
-						likes: parseInt(tweetObj.favorite_count) || 0,
-						retweets: parseInt(tweetObj.retweet_count) || 0,
-						id: tweetObj.id,
-						media: mediaUrls
-					};
-				}).sort().reverse(); // chronological
+			const day = date.toISOString().split('T')[0];
+			return (await this.getTweetsForRange(day, day, filter))[0].tweets;
 		} catch (error) {
-			new Notice("Error fetching tweets");
+			new Notice(`Error fetching tweets: ${error.message}`);
 			console.error('Error fetching tweets:', error);
 			return [];
 		}
 	}
+
+	/**
+	 * Tweets with local media for every day from `from` to `to`, oldest day
+	 * first. Throws if the archive can't be read, so a range shows one error
+	 */
+	async getTweetsForRange(from: string, to: string, filter: TweetFilter = this.settings): Promise<{ day: string, tweets: Tweet[] }[]> {
+		const days: { day: string, tweets: Tweet[] }[] = [];
+		for (const day of eachDay(from, to)) {
+			const tweets = await this.queryTweets(new Date(day), filter);
+			for (const tweet of tweets) {
+				await this.withLocalMedia(tweet);
+			}
+			days.push({ day, tweets });
+		}
+		return days;
+	}
+
+	/**
+	 * Tweets for a day, still pointing at the original media URLs. Throws if the archive can't be read
+	 */
+	async queryTweets(date: Date, filter: TweetFilter = this.settings): Promise<Tweet[]> {
+		// date in YYYY-MM-DD format
+		const dateString = date.toISOString().split('T')[0];
+		//new Notice("Fetching tweets for " + dateString.toString() + "...");
+		const rawTweets = await this.archive.getTweetsForDay(dateString);
+		const tweets: Tweet[] = [];
+
+		for (const raw of rawTweets) {
+			if (raw.deleted && !filter.includeDeletedTweets) continue;
+			if (this.tweetMenu.isHidden(raw.id_str || raw.id)) continue;
+			if (!(await this.isIncluded(raw, filter))) continue;
+
+			const tweet = withBlueskyHandle(toTweet(raw), this.settings.blueskyHandle);
+			if (tweet.quoted) {
+				const quotedRaw = await this.archive.getTweet(tweet.quoted.id);
+				if (quotedRaw) tweet.quoted.tweet = toTweet(quotedRaw);
+			}
+			tweets.push(tweet);
+		}
+
+		return sortTweets(collapseThreads(tweets), this.settings.tweetOrder);
+	}
+
+	/**
+	 * Swaps remote media URLs for the archive's local copies, including quoted tweets and threads
+	 */
+	async withLocalMedia(tweet: Tweet): Promise<Tweet> {
+		const media: TweetMedia[] = [];
+		for (const item of tweet.media) {
+			const resolved = await this.media.resolve(tweet.id, item.url);
+			if (resolved) media.push(Object.assign({}, item, { url: resolved }));
+		}
+		tweet.media = media;
+
+		if (tweet.author && tweet.author.avatar) {
+			const avatar = tweet.author.avatar;
+			const resolved = path.isAbsolute(avatar) ? toResourceUrl(avatar) : this.settings.allowRemoteMedia ? avatar : '';
+			tweet.author = Object.assign({}, tweet.author, { avatar: resolved });
+		}
+
+		if (tweet.quoted && tweet.quoted.tweet) {
+			await this.withLocalMedia(tweet.quoted.tweet);
+		}
+		for (const part of tweet.thread) {
+			await this.withLocalMedia(part);
+		}
+		return tweet;
+	}
+
+	/**
+	 * Whether the settings say this kind of tweet belongs in the diary
+	 */
+	async isIncluded(raw: ArchiveTweet, filter: TweetFilter): Promise<boolean> {
+		switch (tweetKind(raw)) {
+			case 'retweet':
+				return filter.includeRetweets;
+			case 'quote':
+				return filter.includeQuoteTweets;
+			case 'reply': {
+				// replying to a tweet in our own archive means it's a thread
+				const parent = await this.archive.getTweet(raw.in_reply_to_status_id_str || raw.in_reply_to_status_id || '');
+				return parent ? filter.includeThreads : filter.includeReplies;
+			}
+			default:
+				return true;
+		}
+	}
 }
 
 class TwitterDiarySettingTab extends PluginSettingTab {
@@ -602,38 +1420,505 @@ class TwitterDiarySettingTab extends PluginSettingTab {
 			containerEl
 		} = this;
 		containerEl.empty();
-		new Setting(containerEl)
+		const dataPath = new Setting(containerEl)
 			.setName('Data Path')
-			.setDesc('Absolute path to the twitter data archive')
+			.setDesc('Absolute path to the data folder of your unzipped Twitter archive, the one with tweets.js in it. Leave it empty to only show Mastodon or Bluesky posts');
+		const checkDataPath = this.addValidation(dataPath, () => validateDataPath(this.plugin.settings.dataPath));
+		dataPath
 			.addText(text => text
-				.setPlaceholder('/path/to/data')
+				.setPlaceholder('/path/to/twitter-archive/data')
 				.setValue(this.plugin.settings.dataPath)
 				.onChange(async (value) => {
-					this.plugin.settings.dataPath = value;
+					this.plugin.settings.dataPath = value.trim();
+					await this.plugin.saveSettings();
+					await checkDataPath();
+				}))
+			.addExtraButton(button => button
+				.setIcon('folder-open')
+				.setTooltip('Choose folder')
+				.onClick(() => this.choosePath('dataPath', () => pickDirectory('Twitter archive data folder', this.plugin.settings.dataPath))))
+			.addButton(button => button
+				.setButtonText('Check archive')
+				.onClick(() => this.plugin.checkArchive()));
+
+		new Setting(containerEl)
+			.setName('Feed Folder')
+			.setDesc('Optional absolute path to a folder of JSON or JSON Lines files with tweets from after your export, e.g. from another exporter. They\'re merged with the archive by tweet ID')
+			.addText(text => text
+				.setPlaceholder('/path/to/more-tweets')
+				.setValue(this.plugin.settings.feedFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.feedFolder = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('folder-open')
+				.setTooltip('Choose folder')
+				.onClick(() => this.choosePath('feedFolder', () => pickDirectory('Folder with more tweets', this.plugin.settings.feedFolder))));
+
+		new Setting(containerEl)
+			.setName('Mastodon Archive')
+			.setDesc('Optional absolute path to your unzipped Mastodon export, the folder with outbox.json in it. Its posts show up next to your tweets')
+			.addText(text => text
+				.setPlaceholder('/path/to/mastodon-archive')
+				.setValue(this.plugin.settings.mastodonArchivePath)
+				.onChange(async (value) => {
+					this.plugin.settings.mastodonArchivePath = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('folder-open')
+				.setTooltip('Choose folder')
+				.onClick(() => this.choosePath('mastodonArchivePath', () => pickDirectory('Mastodon export folder', this.plugin.settings.mastodonArchivePath))));
+
+		new Setting(containerEl)
+			.setName('Bluesky Archive')
+			.setDesc('Optional absolute path to your Bluesky repo export (the .car from Settings > Export my data) or a JSON file of its records')
+			.addText(text => text
+				.setPlaceholder('/path/to/repo.car')
+				.setValue(this.plugin.settings.blueskyArchivePath)
+				.onChange(async (value) => {
+					this.plugin.settings.blueskyArchivePath = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('folder-open')
+				.setTooltip('Choose file')
+				.onClick(() => this.choosePath('blueskyArchivePath', () => pickFile('Bluesky export', this.plugin.settings.blueskyArchivePath, ['car', 'json']))));
+
+		new Setting(containerEl)
+			.setName('Bluesky Handle')
+			.setDesc('Your handle, e.g. you.bsky.social. The export only has your DID, links work with either')
+			.addText(text => text
+				.setPlaceholder('you.bsky.social')
+				.setValue(this.plugin.settings.blueskyHandle)
+				.onChange(async (value) => {
+					this.plugin.settings.blueskyHandle = value.trim().replace(/^@/, '');
 					await this.plugin.saveSettings();
 				}));
 
 		new Setting(containerEl)
-			.setName('Metadata Path')
-			.setDesc('Absolute path to your metadata archive')
+			.setName('Sync URL')
+			.setDesc('Optional Twitter-compatible API to pull new tweets from, asked for <URL>/tweets?since_id=<newest tweet>')
 			.addText(text => text
-				.setPlaceholder('/path/to/metadata')
+				.setPlaceholder('http://localhost:8080/api')
+				.setValue(this.plugin.settings.syncUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.syncUrl = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Sync now')
+				.onClick(() => this.plugin.syncTweets(true)));
+
+		new Setting(containerEl)
+			.setName('Sync Token')
+			.setDesc('Sent as a Bearer token, leave empty if the API doesn\'t need one')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text
+					.setValue(this.plugin.settings.syncToken)
+					.onChange(async (value) => {
+						this.plugin.settings.syncToken = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const syncInterval = new Setting(containerEl)
+			.setName('Sync Interval')
+			.setDesc('Minutes between syncs, 0 to only sync on startup and with the "Sync new tweets" command');
+		const checkSyncInterval = this.addValidation(syncInterval, () =>
+			this.plugin.settings.syncInterval >= 0 ? '' : 'Should be a number of minutes');
+		syncInterval.addText(text => text
+			.setPlaceholder('60')
+			.setValue(String(this.plugin.settings.syncInterval))
+			.onChange(async (value) => {
+				const minutes = Number(value.trim() || 0);
+				this.plugin.settings.syncInterval = isNaN(minutes) ? -1 : minutes;
+				await this.plugin.saveSettings();
+				await checkSyncInterval();
+			}));
+
+		const metadataPath = new Setting(containerEl)
+			.setName('Metadata Path')
+			.setDesc('Folder in your vault for account overrides (dated folders, Twitter.md, avatar) and imported media');
+		const checkMetadataPath = this.addValidation(metadataPath, () =>
+			validateVaultFolder(this.app, this.plugin.settings.metadataPath, false));
+		metadataPath.addText(text => {
+			new FolderSuggest(this.app, text.inputEl);
+			text
+				.setPlaceholder('Assets/Twitter')
 				.setValue(this.plugin.settings.metadataPath)
 				.onChange(async (value) => {
-					this.plugin.settings.metadataPath = value;
+					this.plugin.settings.metadataPath = value.trim();
+					await this.plugin.saveSettings();
+					await checkMetadataPath();
+				});
+		});
+
+		const diaryPath = new Setting(containerEl)
+			.setName('Diary Path')
+			.setDesc('Folder in your vault with your diary notes, named by the formats below');
+		const checkDiaryPath = this.addValidation(diaryPath, () =>
+			validateVaultFolder(this.app, this.plugin.settings.diaryPath, true));
+		diaryPath.addText(text => {
+			new FolderSuggest(this.app, text.inputEl);
+			text
+				.setPlaceholder('Daily Log')
+				.setValue(this.plugin.settings.diaryPath)
+				.onChange(async (value) => {
+					this.plugin.settings.diaryPath = value.trim();
+					await this.plugin.saveSettings();
+					await checkDiaryPath();
+				});
+		});
+
+		new Setting(containerEl)
+			.setName('Note Format From')
+			.setDesc('Use the formats below, or those of the Daily Notes or Periodic Notes plugin when it\'s enabled')
+			.addDropdown(dropdown => dropdown
+				.addOption('plugin', 'These settings')
+				.addOption('daily-notes', 'Daily Notes')
+				.addOption('periodic-notes', 'Periodic Notes')
+				.setValue(this.plugin.settings.noteFormatSource)
+				.onChange(async (value) => {
+					this.plugin.settings.noteFormatSource = value as NoteFormatSource;
 					await this.plugin.saveSettings();
 				}));
 
+		const noteFormats: { key: 'noteFormat' | 'weeklyNoteFormat' | 'monthlyNoteFormat', period: NotePeriod, name: string, desc: string, placeholder: string }[] = [
+			{ key: 'noteFormat', period: 'day', name: 'Note Format', desc: 'How daily notes are named, e.g. YYYY/MM-MMMM/YYYY-MM-DD dddd. Without folders, notes in any subfolder count', placeholder: 'YYYY-MM-DD' },
+			{ key: 'weeklyNoteFormat', period: 'week', name: 'Weekly Note Format', desc: 'Weekly notes get tweets from the whole week. Empty for none', placeholder: 'gggg-[W]ww' },
+			{ key: 'monthlyNoteFormat', period: 'month', name: 'Monthly Note Format', desc: 'Monthly notes get tweets from the whole month. Empty for none', placeholder: 'YYYY-MM' },
+		];
+		for (const { key, period, name, desc, placeholder } of noteFormats) {
+			const setting = new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc);
+			const check = this.addValidation(setting, () => validateNoteFormat(this.plugin.settings[key], period));
+			setting.addText(text => text
+				.setPlaceholder(placeholder)
+				.setValue(this.plugin.settings[key])
+				.onChange(async (value) => {
+					this.plugin.settings[key] = value.trim();
+					await this.plugin.saveSettings();
+					await check();
+				}));
+		}
+
 		new Setting(containerEl)
-			.setName('Diary Path')
-			.setDesc('Absolute path to your diary')
+			.setName('Include Deleted Tweets')
+			.setDesc('Show tweets from deleted-tweets.js, marked as deleted')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeDeletedTweets)
+				.onChange(async (value) => {
+					this.plugin.settings.includeDeletedTweets = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const timeZone = new Setting(containerEl)
+			.setName('Timezone')
+			.setDesc('IANA timezone used to decide which day a tweet belongs to, e.g. America/New_York. Leave empty to use the system timezone');
+		let timeZoneInput = this.plugin.settings.timeZone;
+		const checkTimeZone = this.addValidation(timeZone, () =>
+			timeZoneInput && !isValidTimeZone(timeZoneInput) ? `Unknown timezone, still using ${this.plugin.timeZone()}` : '');
+		timeZone.addText(text => text
+			.setPlaceholder(resolveTimeZone(''))
+			.setValue(this.plugin.settings.timeZone)
+			.onChange(async (value) => {
+				timeZoneInput = value.trim();
+				await checkTimeZone();
+				if (timeZoneInput && !isValidTimeZone(timeZoneInput)) return;
+				this.plugin.settings.timeZone = timeZoneInput;
+				await this.plugin.saveSettings();
+			}));
+
+		const dayStartsAt = new Setting(containerEl)
+			.setName('Day Starts At')
+			.setDesc('Tweets posted before this time (HH:MM) count towards the previous day. Leave empty for midnight');
+		const checkDayStart = this.addValidation(dayStartsAt, () =>
+			isValidDayStart(this.plugin.settings.dayStartsAt) ? '' : 'Should look like 04:00');
+		dayStartsAt.addText(text => text
+			.setPlaceholder('00:00')
+			.setValue(this.plugin.settings.dayStartsAt)
+			.onChange(async (value) => {
+				this.plugin.settings.dayStartsAt = value.trim();
+				await this.plugin.saveSettings();
+				await checkDayStart();
+			}));
+
+		new Setting(containerEl)
+			.setName('Include Replies')
+			.setDesc('Show replies to other people')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeReplies)
+				.onChange(async (value) => {
+					this.plugin.settings.includeReplies = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include Threads')
+			.setDesc('Show replies to your own tweets, collapsed into the first tweet of the thread')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeThreads)
+				.onChange(async (value) => {
+					this.plugin.settings.includeThreads = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include Retweets')
+			.setDesc('Show retweets with the original author\'s handle')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeRetweets)
+				.onChange(async (value) => {
+					this.plugin.settings.includeRetweets = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include Quote Tweets')
+			.setDesc('Show quote tweets, with the quoted tweet embedded when it\'s in your archive')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeQuoteTweets)
+				.onChange(async (value) => {
+					this.plugin.settings.includeQuoteTweets = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include Likes')
+			.setDesc('Add a "Liked today" section from like.js. The archive doesn\'t say when you liked something, so the day is estimated from the tweet IDs')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeLikes)
+				.onChange(async (value) => {
+					this.plugin.settings.includeLikes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include Bookmarks')
+			.setDesc('Add a "Bookmarked" section, for archives that have bookmark.js')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeBookmarks)
+				.onChange(async (value) => {
+					this.plugin.settings.includeBookmarks = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include Direct Messages')
+			.setDesc('Add a collapsed "Conversations" section with the day\'s DMs. Off by default since DMs are private, and they\'re kept in the plugin\'s index file while this is on')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeDirectMessages)
+				.onChange(async (value) => {
+					this.plugin.settings.includeDirectMessages = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Layout')
+			.setDesc('How tweets are shown, unless a block sets its own layout')
+			.addDropdown(dropdown => dropdown
+				.addOption('cards', 'Cards')
+				.addOption('compact', 'Compact list')
+				.addOption('timeline', 'Timeline')
+				.setValue(this.plugin.settings.layout)
+				.onChange(async (value) => {
+					this.plugin.settings.layout = value as BlockLayout;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Tweet Order')
+			.setDesc('Order of tweets in notes and blocks without a sort option')
+			.addDropdown(dropdown => dropdown
+				.addOption('oldest', 'Oldest first')
+				.addOption('newest', 'Newest first')
+				.setValue(this.plugin.settings.tweetOrder)
+				.onChange(async (value) => {
+					this.plugin.settings.tweetOrder = value as 'oldest' | 'newest';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Group By Time')
+			.setDesc('Put headers between tweets from different parts of the day or hours')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Don\'t group')
+				.addOption('part-of-day', 'Morning, afternoon, evening, night')
+				.addOption('hour', 'Hour')
+				.setValue(this.plugin.settings.timeGrouping)
+				.onChange(async (value) => {
+					this.plugin.settings.timeGrouping = value as TimeGrouping;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Show Stats')
+			.setDesc('Show retweet and like counts and the share link on cards')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showStats)
+				.onChange(async (value) => {
+					this.plugin.settings.showStats = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Show Avatars')
+			.setDesc('Show your avatar next to your name on cards')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showAvatars)
+				.onChange(async (value) => {
+					this.plugin.settings.showAvatars = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Show Media')
+			.setDesc('Show images and videos on cards')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showMedia)
+				.onChange(async (value) => {
+					this.plugin.settings.showMedia = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Allow Remote Media')
+			.setDesc('Load images and videos from Twitter when they aren\'t in the archive\'s tweets_media folder')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.allowRemoteMedia)
+				.onChange(async (value) => {
+					this.plugin.settings.allowRemoteMedia = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Import Media Into Vault')
+			.setDesc('Copy media shown in the diary into a media folder under the metadata path')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.importMedia)
+				.onChange(async (value) => {
+					this.plugin.settings.importMedia = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Legacy << >> Trigger')
+			.setDesc('Also show tweets in diary notes containing << and >>. New notes should use a twitter-diary code block instead')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.legacyTrigger)
+				.onChange(async (value) => {
+					this.plugin.settings.legacyTrigger = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Note Template')
+			.setDesc('Vault path of the template for notes created by "Backfill all diary notes". {{date}} is replaced with the day')
 			.addText(text => text
-				.setPlaceholder('/path/to/diary')
-				.setValue(this.plugin.settings.diaryPath)
+				.setPlaceholder('Templates/Daily.md')
+				.setValue(this.plugin.settings.noteTemplatePath)
 				.onChange(async (value) => {
-					this.plugin.settings.diaryPath = value;
+					this.plugin.settings.noteTemplatePath = value.trim();
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Mention Links')
+			.setDesc('Where @mentions link to, {name} is replaced with the handle. Leave empty for no link')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.mentionLinkTemplate)
+				.setValue(this.plugin.settings.mentionLinkTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.mentionLinkTemplate = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Hashtag Links')
+			.setDesc('Where #hashtags link to, {name} is replaced with the tag. Leave empty for no link')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.hashtagLinkTemplate)
+				.setValue(this.plugin.settings.hashtagLinkTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.hashtagLinkTemplate = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Write Tweet Properties')
+			.setDesc('Keep tweet_count, tweet_ids, tweet_likes_total, top_tweet and hashtags in the frontmatter of diary notes, updated when a note is opened or tweets are written into it')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.writeProperties)
+				.onChange(async (value) => {
+					this.plugin.settings.writeProperties = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl).setName('Hidden Tweets').setHeading();
+		const hidden = this.plugin.settings.hiddenTweets;
+		if (hidden.length === 0) {
+			new Setting(containerEl).setDesc('Nothing hidden. Right-click a tweet in a note to hide it');
+		}
+		for (const id of hidden) {
+			const setting = new Setting(containerEl)
+				.setName(id)
+				.addButton(button => button
+					.setButtonText('Restore')
+					.onClick(async () => {
+						await this.plugin.tweetMenu.unhide(id);
+						this.display();
+					}));
+			this.describeHiddenTweet(setting, id);
+		}
+	}
+
+	/**
+	 * Shows the day and text of a hidden tweet once the archive has it
+	 */
+	private async describeHiddenTweet(setting: Setting, id: string) {
+		try {
+			const raw = await this.plugin.archive.getTweet(id);
+			if (!raw) return;
+			const tweet = toTweet(raw);
+			setting.setName(this.plugin.toDiaryDay(tweet.timestamp));
+			setting.setDesc(tweet.text.length > 120 ? tweet.text.slice(0, 120) + '…' : tweet.text);
+		} catch (error) {
+			// the ID will do without the archive
+		}
+	}
+
+	/**
+	 * Puts the path picked with `pick` into the setting, nothing when cancelled
+	 */
+	private async choosePath(key: 'dataPath' | 'feedFolder' | 'mastodonArchivePath' | 'blueskyArchivePath', pick: () => Promise<string | null>) {
+		let picked: string | null;
+		try {
+			picked = await pick();
+		} catch (error) {
+			new Notice(`Couldn't open the picker: ${error.message}`);
+			console.error('Error opening the picker:', error);
+			return;
+		}
+		if (!picked) return;
+		this.plugin.settings[key] = picked;
+		await this.plugin.saveSettings();
+		this.display();
+	}
+
+	/**
+	 * Adds a line under the setting's description saying what's wrong with its
+	 * value. Returns a function to check again after a change
+	 */
+	private addValidation(setting: Setting, validate: () => string | Promise<string>): () => Promise<void> {
+		const errorEl = setting.descEl.createDiv({ cls: 'twitter-diary-setting-error' });
+		const check = async () => {
+			errorEl.setText(await validate());
+		};
+		check();
+		return check;
 	}
 }
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { findParts, parseYTD } from './archive';
+import { toResourceUrl } from './media';
+
+export interface AccountSettings {
+	dataPath: string;
+	metadataPath: string;
+	allowRemoteMedia: boolean;
+}
+
+/**
+ * How the account looked on a given day
+ */
+export interface AccountSnapshot {
+	avatar: string;
+	username: string;
+	handle: string;
+}
+
+export interface AccountInfo extends AccountSnapshot {
+	// used for share links, old handles don't resolve anymore
+	currentHandle: string;
+}
+
+/**
+ * What the archive knows about the account
+ */
+interface ArchiveAccount {
+	// tells our own DMs apart from everyone else's
+	accountId: string;
+	username: string;
+	avatar: string;
+	// handle in use from each day on, oldest first. The first one has no start
+	handles: { from: string, handle: string }[];
+}
+
+const AVATAR_EXTENSIONS = ["jpg", "jpeg", "webp", "png"];
+
+/**
+ * Display name, handle and avatar over time.
+ *
+ * Built from account.js, profile.js, screen-name-change.js and profile_media
+ * in the archive. Dated folders under the metadata path still win, and
+ * Twitter.md / avatar.* at its root fill in whatever's left:
+ *
+ *     Assets/Twitter/2021-06-30/2021-06-30.md   line 0 username, line 1 handle
+ *     Assets/Twitter/2021-06-30/avatar.jpg      applies to days up to 2021-06-30
+ *     Assets/Twitter/Twitter.md
+ *     Assets/Twitter/avatar.png
+ */
+export class AccountHistory {
+	private archive: Promise<ArchiveAccount> | null = null;
+	private cache = new Map<string, Promise<AccountSnapshot>>();
+
+	constructor(
+		private app: App,
+		private getSettings: () => AccountSettings,
+		// the diary day of a timestamp, so a rename goes by the same days as the tweets
+		private toDayKey: (timestamp: string) => string,
+	) {}
+
+	/**
+	 * The account as it was on `date`, plus today's handle for share links
+	 */
+	async info(date: Date): Promise<AccountInfo> {
+		const snapshot = await this.at(date);
+		const current = await this.at(new Date());
+		return Object.assign({}, snapshot, { currentHandle: current.handle });
+	}
+
+	at(date: Date): Promise<AccountSnapshot> {
+		const day = date.toISOString().split('T')[0];
+		if (!this.cache.has(day)) {
+			this.cache.set(day, this.lookup(day));
+		}
+		return this.cache.get(day)!;
+	}
+
+	/**
+	 * The archive owner's account ID, "" when account.js is missing
+	 */
+	async accountId(): Promise<string> {
+		return (await this.loadArchive()).accountId;
+	}
+
+	/**
+	 * Forgets everything, e.g. after the archive or the metadata folders changed
+	 */
+	invalidate() {
+		this.archive = null;
+		this.cache.clear();
+	}
+
+	private async lookup(day: string): Promise<AccountSnapshot> {
+		const metadataPath = this.getSettings().metadataPath;
+		const folders = this.foldersFrom(day);
+		const archive = await this.loadArchive();
+
+		const username = await this.fromFolders(folders, folder => this.readLine(`${metadataPath}/${folder}/${folder}.md`, 0))
+			|| archive.username
+			|| await this.readLine(`${metadataPath}/Twitter.md`, 0);
+
+		const handle = await this.fromFolders(folders, folder => this.readLine(`${metadataPath}/${folder}/${folder}.md`, 1))
+			|| handleOn(archive, day)
+			|| await this.readLine(`${metadataPath}/Twitter.md`, 1);
+
+		const avatar = await this.fromFolders(folders, folder => this.findAvatar(`${metadataPath}/${folder}`))
+			|| archive.avatar
+			|| await this.findAvatar(metadataPath);
+
+		return { avatar, username, handle };
+	}
+
+	/**
+	 * Dated metadata folders on or after `day`, closest first
+	 */
+	private foldersFrom(day: string): string[] {
+		const baseFolder = this.app.vault.getAbstractFileByPath(normalizePath(this.getSettings().metadataPath));
+		if (!baseFolder || !(baseFolder instanceof TFolder)) {
+			return [];
+		}
+
+		return baseFolder.children
+			.filter(file => file instanceof TFolder)
+			.map(folder => folder.name)
+			.filter(name => /^\d{4}-\d{2}-\d{2}$/.test(name) && name >= day)
+			.sort();
+	}
+
+	private async fromFolders(folders: string[], read: (folder: string) => Promise<string>): Promise<string> {
+		for (const folder of folders) {
+			const value = await read(folder);
+			if (value) return value;
+		}
+		return "";
+	}
+
+	private async readLine(filePath: string, line: number): Promise<string> {
+		const adapter = this.app.vault.adapter;
+		filePath = normalizePath(filePath);
+		if (!(await adapter.exists(filePath))) return "";
+		const lines = (await adapter.read(filePath)).split('\n');
+		return lines[line] ? lines[line].trim() : "";
+	}
+
+	private async findAvatar(folderPath: string): Promise<string> {
+		for (const ext of AVATAR_EXTENSIONS) {
+			const file = this.app.vault.getAbstractFileByPath(normalizePath(`${folderPath}/avatar.${ext}`));
+			if (file instanceof TFile) {
+				return this.app.vault.getResourcePath(file);
+			}
+		}
+		return "";
+	}
+
+	private loadArchive(): Promise<ArchiveAccount> {
+		if (!this.archive) {
+			this.archive = this.readArchive();
+		}
+		return this.archive;
+	}
+
+	private async readArchive(): Promise<ArchiveAccount> {
+		const settings = this.getSettings();
+		const account = await readArchiveFile(settings.dataPath, 'account');
+		const profile = await readArchiveFile(settings.dataPath, 'profile');
+		const changes = await readArchiveFile(settings.dataPath, 'screen-name-change');
+
+		const details = account.length > 0 ? account[0].account : {};
+		const result: ArchiveAccount = {
+			accountId: details.accountId || "",
+			username: details.accountDisplayName || "",
+			avatar: "",
+			handles: [],
+		};
+
+		const sorted = changes
+			.map(entry => entry.screenNameChange && entry.screenNameChange.screenNameChange)
+			.filter(change => change && change.changedAt && !isNaN(new Date(change.changedAt).getTime()))
+			.sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime());
+		if (sorted.length > 0) {
+			result.handles.push({ from: "", handle: sorted[0].changedFrom });
+			sorted.forEach(change => result.handles.push({
+				from: this.toDayKey(change.changedAt),
+				handle: change.changedTo,
+			}));
+		} else if (details.username) {
+			result.handles.push({ from: "", handle: details.username });
+		}
+
+		const avatarUrl = profile.length > 0 && profile[0].profile && profile[0].profile.avatarMediaUrl;
+		if (avatarUrl) {
+			result.avatar = await localProfileMedia(settings.dataPath, avatarUrl)
+				|| (settings.allowRemoteMedia ? avatarUrl : "");
+		}
+
+		return result;
+	}
+}
+
+function handleOn(archive: ArchiveAccount, day: string): string {
+	let handle = "";
+	for (const era of archive.handles) {
+		if (era.from <= day) handle = era.handle;
+	}
+	return handle;
+}
+
+/**
+ * Reads every part of an optional archive file, [] if it isn't there or is broken
+ */
+async function readArchiveFile(dataPath: string, name: string): Promise<any[]> {
+	if (!dataPath) return [];
+	try {
+		const files = findParts(await fs.readdir(dataPath), name);
+		let entries: any[] = [];
+		for (const file of files) {
+			entries = entries.concat(parseYTD(await fs.readFile(path.join(dataPath, file), 'utf8')));
+		}
+		return entries;
+	} catch (error) {
+		console.warn(`Could not read ${name}.js from the archive:`, error);
+		return [];
+	}
+}
+
+/**
+ * The archive saves the avatar as profile_media/<accountId>-<name>
+ */
+async function localProfileMedia(dataPath: string, remoteUrl: string): Promise<string> {
+	const name = remoteUrl.split(/[?#]/)[0].split('/').pop();
+	const mediaDir = path.join(dataPath, 'profile_media');
+	try {
+		const match = (await fs.readdir(mediaDir)).find(file => file.endsWith('-' + name));
+		return match ? toResourceUrl(path.join(mediaDir, match)) : "";
+	} catch (e) {
+		return "";
+	}
+}
@@ -0,0 +1,123 @@
+/**
+ * A liked or bookmarked tweet. The archive only keeps its ID, text and link,
+ * not who wrote it or when it was liked
+ */
+export interface SavedTweet {
+	id: string;
+	text: string;
+	url: string;
+	timestamp: string;
+	// true when the timestamp was worked out from tweet IDs rather than recorded
+	estimated: boolean;
+}
+
+/**
+ * A single DM, from either a one-to-one or a group conversation
+ */
+export interface DirectMessage {
+	id: string;
+	conversationId: string;
+	// only group conversations can have a name
+	conversationName: string;
+	senderId: string;
+	text: string;
+	timestamp: string;
+	media: string[];
+}
+
+/**
+ * Everything besides tweets we can show for a day
+ */
+export interface DayActivity {
+	likes: SavedTweet[];
+	bookmarks: SavedTweet[];
+	messages: DirectMessage[];
+}
+
+export type ActivityKind = keyof DayActivity;
+
+// 2010-11-04, the first snowflake
+const TWITTER_EPOCH = 1288834974657;
+const TIMESTAMP_SHIFT = 4194304; // 2^22
+
+/**
+ * When a tweet was posted, going by the timestamp in its snowflake ID.
+ * Returns null for IDs from before snowflakes, which are just a counter
+ */
+export function snowflakeTime(id: string): number | null {
+	const value = Number(id);
+	if (!/^\d+$/.test(id) || value < 1e15) return null;
+	// doubles lose the low bits of the ID, but those are below the millisecond anyway
+	return Math.floor(value / TIMESTAMP_SHIFT) + TWITTER_EPOCH;
+}
+
+/**
+ * Reads like.js or bookmark.js entries. Likes have no timestamp, so their dates are estimated:
+ *
+ * - a tweet can't be liked before it was posted, which its snowflake ID tells us
+ * - the files list the newest like first, so a like can't be older than the one after it
+ *
+ * Walking from the oldest like up and taking the later of the two gives the
+ * earliest each like could have happened. Likes of old tweets liked long after
+ * they were posted land too early, but recent likes of recent tweets are close.
+ * Likes before the first datable one are dropped.
+ */
+export function parseSavedTweets(entries: any[], key: 'like' | 'bookmark'): SavedTweet[] {
+	const saved: SavedTweet[] = [];
+	let floor = 0;
+
+	for (let i = entries.length - 1; i >= 0; i--) {
+		const entry = entries[i] && entries[i][key];
+		if (!entry || !entry.tweetId) continue;
+		const id = String(entry.tweetId);
+
+		// newer archives may record when a bookmark was made
+		const recorded = entry.createdAt || entry.bookmarkedAt;
+		let time = recorded ? new Date(recorded).getTime() : NaN;
+		const estimated = isNaN(time);
+		if (estimated) {
+			floor = Math.max(floor, snowflakeTime(id) || 0);
+			time = floor;
+		}
+		if (!time) continue;
+
+		saved.push({
+			id,
+			text: entry.fullText || '',
+			url: entry.expandedUrl || `https://x.com/i/status/${id}`,
+			timestamp: new Date(time).toISOString(),
+			estimated,
+		});
+	}
+
+	return saved.reverse();
+}
+
+/**
+ * Reads direct-messages.js and direct-messages-group.js entries. Joins, leaves
+ * and renames are skipped, only actual messages are kept
+ */
+export function parseDirectMessages(entries: any[]): DirectMessage[] {
+	const messages: DirectMessage[] = [];
+
+	for (const entry of entries) {
+		const conversation = entry && entry.dmConversation;
+		if (!conversation) continue;
+
+		for (const item of conversation.messages || []) {
+			const message = item.messageCreate;
+			if (!message || !message.createdAt) continue;
+			messages.push({
+				id: String(message.id),
+				conversationId: String(conversation.conversationId),
+				conversationName: conversation.conversationName || '',
+				senderId: String(message.senderId),
+				text: message.text || '',
+				timestamp: message.createdAt,
+				media: message.mediaUrls || [],
+			});
+		}
+	}
+
+	return messages;
+}
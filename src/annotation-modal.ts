@@ -0,0 +1,39 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Asks for a note on a tweet. Saving it empty removes the annotation
+ */
+export class AnnotationModal extends Modal {
+	constructor(app: App, private text: string, private onSubmit: (text: string) => void) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(this.text ? 'Edit annotation' : 'Add annotation');
+
+		new Setting(contentEl)
+			.setDesc('Shown under the tweet in your notes')
+			.addTextArea(text => {
+				text.inputEl.rows = 5;
+				text
+					.setValue(this.text)
+					.onChange(value => { this.text = value; });
+				// after the modal is on screen
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onSubmit(this.text.trim());
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
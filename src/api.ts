@@ -0,0 +1,47 @@
+import type TwitterDiaryPlugin from '../main';
+import { Tweet, sortTweets } from './tweet';
+
+export type { Tweet, TweetKind, TweetMedia } from './tweet';
+
+/**
+ * What other plugins and scripts get at
+ * `app.plugins.plugins['twitter-diary-plugin'].api`, e.g. in dataviewjs:
+ *
+ *     const api = app.plugins.plugins['twitter-diary-plugin'].api;
+ *     const tweets = await api.getTweets('2024-01-01', '2024-01-31');
+ */
+export interface TwitterDiaryApi {
+	/**
+	 * Tweets from `from` to `to` (YYYY-MM-DD, inclusive), oldest first. Uses the
+	 * same settings as the diary for which tweet types to include. Rejects when
+	 * the archive can't be read
+	 */
+	getTweets(from: string, to?: string): Promise<Tweet[]>;
+	/**
+	 * Days with at least one tweet, oldest first
+	 */
+	getDays(): Promise<string[]>;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function createApi(plugin: TwitterDiaryPlugin): TwitterDiaryApi {
+	return {
+		async getTweets(from: string, to: string = from): Promise<Tweet[]> {
+			if (!DAY.test(from) || !DAY.test(to)) {
+				throw new Error('getTweets takes days as YYYY-MM-DD');
+			}
+
+			// archive errors reject, scripts can't tell an empty day from a broken archive otherwise
+			let tweets: Tweet[] = [];
+			for (const day of await plugin.getTweetsForRange(from, to)) {
+				tweets = tweets.concat(sortTweets(day.tweets, 'oldest'));
+			}
+			return tweets;
+		},
+
+		getDays(): Promise<string[]> {
+			return plugin.archive.getDays();
+		},
+	};
+}
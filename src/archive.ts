@@ -0,0 +1,442 @@
+import { DataAdapter } from 'obsidian';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ActivityKind, DayActivity, DirectMessage, SavedTweet, parseDirectMessages, parseSavedTweets } from './activity';
+import { AccountSnapshot } from './account';
+import { Network } from './tweet';
+
+// bump this whenever the shape of the stored index changes
+const INDEX_VERSION = 5;
+
+export type SourceKind = 'tweets' | 'deleted' | ActivityKind;
+
+// archive files we read, each may be split into -partN files. Only some archives have bookmarks
+const ARCHIVE_SOURCES: { name: string, kind: SourceKind }[] = [
+	{ name: 'tweets', kind: 'tweets' },
+	{ name: 'deleted-tweets', kind: 'deleted' },
+	{ name: 'like', kind: 'likes' },
+	{ name: 'bookmark', kind: 'bookmarks' },
+	{ name: 'direct-messages', kind: 'messages' },
+	{ name: 'direct-messages-group', kind: 'messages' },
+];
+
+/**
+ * A tweet exactly as it appears in the archive (the inner `tweet` object).
+ * Counts and indices are strings in there
+ */
+export interface ArchiveTweet {
+	id: string;
+	id_str: string;
+	full_text: string;
+	created_at: string;
+	favorite_count?: string;
+	retweet_count?: string;
+	display_text_range?: string[];
+	in_reply_to_status_id?: string;
+	in_reply_to_status_id_str?: string;
+	in_reply_to_screen_name?: string;
+	entities?: ArchiveEntities;
+	extended_entities?: { media?: ArchiveMedia[] };
+	// ours, for tweets from deleted-tweets.js
+	deleted?: boolean;
+	// ours, for posts from other networks (see networks.ts)
+	network?: Network;
+	permalink?: string;
+	author?: AccountSnapshot;
+}
+
+export interface ArchiveEntities {
+	hashtags?: { text: string, indices?: string[] }[];
+	symbols?: { text: string, indices?: string[] }[];
+	user_mentions?: { screen_name: string, name?: string, id_str?: string, indices?: string[] }[];
+	urls?: { url: string, expanded_url?: string, display_url?: string, indices?: string[] }[];
+	media?: ArchiveMedia[];
+}
+
+export interface ArchiveMedia {
+	type: string;
+	// the t.co link in the text
+	url?: string;
+	media_url_https: string;
+	ext_alt_text?: string;
+	// newer archives only, older ones have sizes
+	original_info?: { width?: string | number, height?: string | number };
+	sizes?: { large?: { w: string | number, h: string | number } };
+	video_info?: { variants: { content_type?: string, url: string, bitrate?: string }[] };
+	indices?: string[];
+}
+
+/**
+ * What we remember about a source file so we know when to rebuild
+ */
+export interface SourceStamp {
+	file: string;
+	kind: SourceKind;
+	mtime: number;
+	size: number;
+}
+
+/**
+ * What a source hands the index when it's (re)built
+ */
+export interface SourceContents {
+	// in the archive's shape, deleted ones with `deleted: true`
+	tweets: ArchiveTweet[];
+	// raw like.js and bookmark.js entries, in archive order
+	likes?: any[];
+	bookmarks?: any[];
+	messages?: DirectMessage[];
+}
+
+/**
+ * Somewhere tweets come from. The archive is one, feeds that keep the diary
+ * going past the export date are others (see feeds.ts)
+ */
+export interface TweetSource {
+	// the files the source reads, the index is rebuilt when any of them changes
+	stamp(): Promise<SourceStamp[]>;
+	read(stamps: SourceStamp[]): Promise<SourceContents>;
+}
+
+interface ArchiveIndexData {
+	version: number;
+	sources: SourceStamp[];
+	// timezone and day start the buckets were built with
+	bucketing: string;
+	days: { [day: string]: ArchiveTweet[] };
+	likes: { [day: string]: SavedTweet[] };
+	bookmarks: { [day: string]: SavedTweet[] };
+	messages: { [day: string]: DirectMessage[] };
+}
+
+/**
+ * Reads tweets.js and friends from the archive's data folder.
+ *
+ * Likes, bookmarks and DMs are only read when turned on, so DMs don't end up
+ * in the stored index unless asked for.
+ */
+export class ArchiveSource implements TweetSource {
+	constructor(
+		private getDataPath: () => string,
+		private getActivityKinds: () => ActivityKind[],
+	) {}
+
+	async stamp(): Promise<SourceStamp[]> {
+		const dataPath = this.getDataPath();
+		// Mastodon or Bluesky only
+		if (!dataPath) return [];
+
+		let entries: string[];
+		try {
+			entries = await fs.readdir(dataPath);
+		} catch (error) {
+			throw new Error(`Can't open the archive folder ${dataPath}, check the Data Path setting`);
+		}
+		const activity = this.getActivityKinds();
+		const sources: SourceStamp[] = [];
+
+		for (const { name, kind } of ARCHIVE_SOURCES) {
+			if (kind !== 'tweets' && kind !== 'deleted' && activity.indexOf(kind) === -1) continue;
+			for (const part of findParts(entries, name)) {
+				const file = path.join(dataPath, part);
+				const stat = await fs.stat(file);
+				sources.push({ file, kind, mtime: stat.mtimeMs, size: stat.size });
+			}
+		}
+
+		if (!sources.some(source => source.kind === 'tweets')) {
+			throw new Error(`No tweets.js found in ${dataPath}`);
+		}
+		return sources;
+	}
+
+	async read(stamps: SourceStamp[]): Promise<SourceContents> {
+		const contents: SourceContents = { tweets: [], likes: [], bookmarks: [], messages: [] };
+
+		for (const stamp of stamps) {
+			const entries = parseYTD(await fs.readFile(stamp.file, 'utf8'));
+
+			// likes are dated by their order, so the parts have to be read together
+			if (stamp.kind === 'likes') {
+				contents.likes = contents.likes!.concat(entries);
+			} else if (stamp.kind === 'bookmarks') {
+				contents.bookmarks = contents.bookmarks!.concat(entries);
+			} else if (stamp.kind === 'messages') {
+				contents.messages = contents.messages!.concat(parseDirectMessages(entries));
+			} else {
+				for (const entry of entries) {
+					if (stamp.kind === 'deleted') entry.tweet.deleted = true;
+					contents.tweets.push(entry.tweet);
+				}
+			}
+		}
+		return contents;
+	}
+}
+
+/**
+ * Tweets from all sources bucketed by calendar day.
+ *
+ * Parsing tweets.js is slow for big archives so we do it once, keep the
+ * buckets in memory and persist them next to the plugin. The index is only
+ * rebuilt when a source's files change on disk. Those are checked on the
+ * first lookup and after `invalidate()`, in between lookups don't touch the disk.
+ */
+export class ArchiveIndex {
+	private data: ArchiveIndexData | null = null;
+	private byId = new Map<string, ArchiveTweet>();
+	// whether the sources' files were checked since the last invalidate()
+	private checked = false;
+
+	// goes up whenever the index is (re)loaded, so caches built on top know to rebuild
+	generation = 0;
+	private pending: Promise<ArchiveIndexData> | null = null;
+
+	constructor(
+		private adapter: DataAdapter,
+		private indexPath: string,
+		// earlier sources win when two have the same tweet
+		private getSources: () => TweetSource[],
+		private toDayKey: (timestamp: string) => string,
+		private getBucketing: () => string,
+	) {}
+
+	/**
+	 * Returns the raw archive tweets posted on `day` (YYYY-MM-DD)
+	 */
+	async getTweetsForDay(day: string): Promise<ArchiveTweet[]> {
+		const data = await this.load();
+		return data.days[day] || [];
+	}
+
+	/**
+	 * Likes, bookmarks and DMs from `day`, empty for the ones that are turned off
+	 */
+	async getActivityForDay(day: string): Promise<DayActivity> {
+		const data = await this.load();
+		return {
+			likes: data.likes[day] || [],
+			bookmarks: data.bookmarks[day] || [],
+			messages: data.messages[day] || [],
+		};
+	}
+
+	/**
+	 * Every day (YYYY-MM-DD) that has at least one tweet, oldest first
+	 */
+	async getDays(): Promise<string[]> {
+		const data = await this.load();
+		return Object.keys(data.days).sort();
+	}
+
+	/**
+	 * All the buckets at once, for things that go over the whole archive. Don't modify
+	 */
+	async getAllDays(): Promise<{ [day: string]: ArchiveTweet[] }> {
+		const data = await this.load();
+		return data.days;
+	}
+
+	/**
+	 * Looks up a single archive tweet by its ID
+	 */
+	async getTweet(id: string): Promise<ArchiveTweet | undefined> {
+		await this.load();
+		return this.byId.get(id);
+	}
+
+	/**
+	 * Adds tweets `source` just got to the index without rebuilding it, skipping
+	 * ones it already has. Returns how many were new
+	 */
+	async merge(source: TweetSource, tweets: ArchiveTweet[]): Promise<number> {
+		// load() would see the source's new files and rebuild everything
+		const data = this.data || await this.load();
+		let added = 0;
+		for (const tweet of tweets) {
+			const id = tweet.id_str || tweet.id;
+			if (this.byId.has(id)) continue;
+
+			const day = this.dayOf(tweet.created_at);
+			if (!day) continue;
+			(data.days[day] = data.days[day] || []).push(tweet);
+			this.byId.set(id, tweet);
+			added++;
+		}
+
+		// the source's files changed too, remember them so that's not taken for a reason to rebuild
+		const stamps = await source.stamp();
+		const files = new Set(stamps.map(stamp => stamp.file));
+		data.sources = data.sources.filter(stamp => !files.has(stamp.file)).concat(stamps);
+		await this.adapter.write(this.indexPath, JSON.stringify(data));
+
+		if (added > 0) this.generation++;
+		return added;
+	}
+
+	/**
+	 * Makes the next lookup check the sources' files again, e.g. when a
+	 * watcher saw them change or the settings point somewhere else
+	 */
+	invalidate() {
+		this.checked = false;
+	}
+
+	private load(): Promise<ArchiveIndexData> {
+		// already checked, only a new timezone or day start means rebuilding
+		if (this.data && this.checked && !this.pending && this.data.bucketing === this.getBucketing()) {
+			return Promise.resolve(this.data);
+		}
+
+		// every caller during a (re)build waits on the same promise
+		if (!this.pending) {
+			const done = () => { this.pending = null; };
+			this.pending = this.refresh();
+			this.pending.then(done, () => {
+				// try again next time instead of serving what was there before
+				this.checked = false;
+				done();
+			});
+		}
+		return this.pending;
+	}
+
+	private async refresh(): Promise<ArchiveIndexData> {
+		// before stamping, so an invalidate() while we're at it still counts
+		this.checked = true;
+		const sources = this.getSources();
+		const stamps: SourceStamp[][] = [];
+		for (const source of sources) {
+			stamps.push(await source.stamp());
+		}
+		const allStamps = ([] as SourceStamp[]).concat(...stamps);
+		const bucketing = this.getBucketing();
+		const isCurrent = (data: ArchiveIndexData) =>
+			data.bucketing === bucketing && sameSources(data.sources, allStamps);
+
+		if (this.data && isCurrent(this.data)) {
+			return this.data;
+		}
+
+		if (!this.data) {
+			const stored = await this.readStored();
+			if (stored && isCurrent(stored)) {
+				return this.use(stored);
+			}
+		}
+
+		const data = await this.build(sources, stamps, bucketing);
+		await this.adapter.write(this.indexPath, JSON.stringify(data));
+		return this.use(data);
+	}
+
+	private use(data: ArchiveIndexData): ArchiveIndexData {
+		this.data = data;
+		this.generation++;
+		this.byId.clear();
+		for (const day in data.days) {
+			for (const tweet of data.days[day]) {
+				this.byId.set(tweet.id_str || tweet.id, tweet);
+			}
+		}
+		return data;
+	}
+
+	private async readStored(): Promise<ArchiveIndexData | null> {
+		try {
+			if (!(await this.adapter.exists(this.indexPath))) return null;
+			const stored = JSON.parse(await this.adapter.read(this.indexPath));
+			return stored.version === INDEX_VERSION ? stored : null;
+		} catch (error) {
+			// a broken index just gets rebuilt
+			console.warn('Discarding unreadable tweet index:', error);
+			return null;
+		}
+	}
+
+	private async build(sources: TweetSource[], stamps: SourceStamp[][], bucketing: string): Promise<ArchiveIndexData> {
+		const data: ArchiveIndexData = {
+			version: INDEX_VERSION,
+			sources: ([] as SourceStamp[]).concat(...stamps),
+			bucketing,
+			days: {},
+			likes: {},
+			bookmarks: {},
+			messages: {},
+		};
+		const days = data.days;
+		const seen = new Set<string>();
+
+		let liked: any[] = [];
+		let bookmarked: any[] = [];
+		let undated = 0;
+		const dayOf = (timestamp: string) => {
+			const day = this.dayOf(timestamp);
+			if (!day) undated++;
+			return day;
+		};
+
+		for (let i = 0; i < sources.length; i++) {
+			const contents = await sources[i].read(stamps[i]);
+
+			for (const tweet of contents.tweets) {
+				// a tweet can show up in more than one part or source, first one wins
+				const id = tweet.id_str || tweet.id;
+				if (seen.has(id)) continue;
+				seen.add(id);
+
+				const day = dayOf(tweet.created_at);
+				if (day) (days[day] = days[day] || []).push(tweet);
+			}
+
+			if (contents.likes) liked = liked.concat(contents.likes);
+			if (contents.bookmarks) bookmarked = bookmarked.concat(contents.bookmarks);
+			if (contents.messages) bucket(data.messages, contents.messages, message => dayOf(message.timestamp));
+		}
+
+		bucket(data.likes, parseSavedTweets(liked, 'like'), like => dayOf(like.timestamp));
+		bucket(data.bookmarks, parseSavedTweets(bookmarked, 'bookmark'), bookmark => dayOf(bookmark.timestamp));
+
+		if (undated > 0) console.warn(`Left out ${undated} archive entries with dates that don't parse`);
+		return data;
+	}
+
+	// null for a date that doesn't parse, one broken entry shouldn't stop the whole index
+	private dayOf(timestamp: string): string | null {
+		if (!timestamp || isNaN(new Date(timestamp).getTime())) return null;
+		return this.toDayKey(timestamp);
+	}
+}
+
+/**
+ * Parses an archive data file, stripping the `window.YTD.<name>.partN =` prefix
+ */
+export function parseYTD(contents: string): any[] {
+	return JSON.parse(contents.replace(/^\s*window\.YTD\.[\w.]+\s*=\s*/, ''));
+}
+
+/**
+ * Finds `<name>.js` and its `<name>-partN.js` siblings, in part order
+ */
+export function findParts(files: string[], name: string): string[] {
+	const pattern = new RegExp(`^${name}(?:-part(\\d+))?\\.js$`);
+	return files
+		.map(file => ({ file, match: pattern.exec(file) }))
+		.filter(({ match }) => match)
+		.sort((a, b) => Number(a.match![1] || 0) - Number(b.match![1] || 0))
+		.map(({ file }) => file);
+}
+
+function bucket<T>(buckets: { [day: string]: T[] }, items: T[], dayOf: (item: T) => string | null) {
+	for (const item of items) {
+		const day = dayOf(item);
+		if (day) (buckets[day] = buckets[day] || []).push(item);
+	}
+}
+
+function sameSources(a: SourceStamp[], b: SourceStamp[]): boolean {
+	// merge() appends stamps, so don't go by order
+	const key = (stamp: SourceStamp) => `${stamp.kind}|${stamp.mtime}|${stamp.size}|${stamp.file}`;
+	const keys = new Set(a.map(key));
+	return a.length === b.length && b.every(stamp => keys.has(key(stamp)));
+}
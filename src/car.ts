@@ -0,0 +1,225 @@
+/**
+ * Just enough of CAR and DAG-CBOR to read a Bluesky repo export
+ * (`getRepo` / "Export my data"): every block decoded, keyed by its CID
+ */
+
+/**
+ * A link to another block, tag 42 in DAG-CBOR
+ */
+export class CidLink {
+	constructor(public bytes: Uint8Array) {}
+
+	// hex is good enough for looking blocks up
+	get key(): string {
+		return toHex(this.bytes);
+	}
+
+	/**
+	 * The usual base32 form, e.g. "bafkrei…", which CDN URLs take
+	 */
+	toString(): string {
+		return 'b' + base32(this.bytes);
+	}
+}
+
+export interface CarFile {
+	roots: CidLink[];
+	blocks: Map<string, any>;
+}
+
+/**
+ * Reads a CARv1 file. Blocks that aren't DAG-CBOR (blobs) are left out.
+ * Throws if the file isn't one or is cut off
+ */
+export function readCar(data: Uint8Array): CarFile {
+	const reader = new Reader(data);
+	let header: any;
+	try {
+		const headerLength = reader.varint();
+		header = new Reader(reader.bytes(headerLength)).cbor();
+	} catch (error) {
+		throw new Error(`Not a CAR file: ${error.message}`);
+	}
+	if (!header || header.version !== 1 || !Array.isArray(header.roots)) {
+		throw new Error('Not a CAR file: no version 1 header');
+	}
+
+	const blocks = new Map<string, any>();
+	while (reader.pos < data.length) {
+		const blockStart = reader.pos;
+		let end: number;
+		let codec: number;
+		let key: string;
+		try {
+			const length = reader.varint();
+			end = reader.pos + length;
+			if (end > data.length) throw new Error('Unexpected end of data');
+			const cidStart = reader.pos;
+			codec = reader.cid();
+			if (reader.pos > end) throw new Error('CID is longer than its block');
+			key = toHex(data.subarray(cidStart, reader.pos));
+		} catch (error) {
+			throw new Error(`Broken CAR file, block at byte ${blockStart}: ${error.message}`);
+		}
+
+		// 0x71 is dag-cbor, everything else we can't use
+		if (codec === 0x71) {
+			try {
+				blocks.set(key, new Reader(data.subarray(reader.pos, end)).cbor());
+			} catch (error) {
+				// a block we can't read is just one post less
+			}
+		}
+		reader.pos = end;
+	}
+
+	return { roots: header.roots.filter((root: any) => root instanceof CidLink), blocks };
+}
+
+class Reader {
+	pos = 0;
+	constructor(private data: Uint8Array) {}
+
+	varint(): number {
+		let value = 0;
+		let shift = 0;
+		for (;;) {
+			const byte = this.byte();
+			value += (byte & 0x7f) * Math.pow(2, shift);
+			if (!(byte & 0x80)) return value;
+			shift += 7;
+			// past what a number holds exactly
+			if (shift > 49) throw new Error('Varint too long');
+		}
+	}
+
+	/**
+	 * Skips over a binary CID, returning its codec
+	 */
+	cid(): number {
+		// CIDv0 is a bare sha2-256 multihash
+		if (this.data[this.pos] === 0x12 && this.data[this.pos + 1] === 0x20) {
+			this.bytes(34);
+			return 0x70;
+		}
+		this.varint();
+		const codec = this.varint();
+		this.varint();
+		const digestLength = this.varint();
+		this.bytes(digestLength);
+		return codec;
+	}
+
+	cbor(depth = 0): any {
+		// real records are a few levels deep, this is a broken or hostile file
+		if (depth > 64) throw new Error('CBOR nested too deeply');
+		const initial = this.byte();
+		const major = initial >> 5;
+		const info = initial & 0x1f;
+
+		if (major === 7) {
+			if (info === 20) return false;
+			if (info === 21) return true;
+			if (info === 22 || info === 23) return null;
+			if (info === 25) return this.half();
+			if (info === 26) return this.view(4).getFloat32(0);
+			if (info === 27) return this.view(8).getFloat64(0);
+			throw new Error(`Unsupported CBOR simple value ${info}`);
+		}
+
+		const arg = this.argument(info);
+		switch (major) {
+			case 0:
+				return arg;
+			case 1:
+				return -1 - arg;
+			case 2:
+				return this.bytes(arg);
+			case 3:
+				return new TextDecoder().decode(this.bytes(arg));
+			case 4: {
+				const items: any[] = [];
+				for (let i = 0; i < arg; i++) items.push(this.cbor(depth + 1));
+				return items;
+			}
+			case 5: {
+				const map: { [key: string]: any } = {};
+				for (let i = 0; i < arg; i++) {
+					const key = this.cbor(depth + 1);
+					map[String(key)] = this.cbor(depth + 1);
+				}
+				return map;
+			}
+			default: {
+				const value = this.cbor(depth + 1);
+				// links have a leading 0 for the "identity" multibase
+				return arg === 42 && value instanceof Uint8Array ? new CidLink(value.subarray(1)) : value;
+			}
+		}
+	}
+
+	private argument(info: number): number {
+		if (info < 24) return info;
+		if (info === 24) return this.byte();
+		if (info === 25) return this.view(2).getUint16(0);
+		if (info === 26) return this.view(4).getUint32(0);
+		if (info === 27) {
+			const view = this.view(8);
+			return view.getUint32(0) * 4294967296 + view.getUint32(4);
+		}
+		// 31 is indefinite length, which DAG-CBOR doesn't allow
+		throw new Error(`Unsupported CBOR length ${info}`);
+	}
+
+	private half(): number {
+		const bits = this.view(2).getUint16(0);
+		const exponent = (bits >> 10) & 0x1f;
+		const fraction = bits & 0x3ff;
+		const sign = bits & 0x8000 ? -1 : 1;
+		if (exponent === 0) return sign * Math.pow(2, -14) * (fraction / 1024);
+		if (exponent === 31) return fraction ? NaN : sign * Infinity;
+		return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+	}
+
+	private byte(): number {
+		if (this.pos >= this.data.length) throw new Error('Unexpected end of data');
+		return this.data[this.pos++];
+	}
+
+	bytes(length: number): Uint8Array {
+		if (this.pos + length > this.data.length) throw new Error('Unexpected end of data');
+		const bytes = this.data.subarray(this.pos, this.pos + length);
+		this.pos += length;
+		return bytes;
+	}
+
+	private view(length: number): DataView {
+		const bytes = this.bytes(length);
+		return new DataView(bytes.buffer, bytes.byteOffset, length);
+	}
+}
+
+function toHex(bytes: Uint8Array): string {
+	let hex = '';
+	for (let i = 0; i < bytes.length; i++) hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+	return hex;
+}
+
+// RFC 4648, lowercase and without padding, the way multibase "b" wants it
+function base32(bytes: Uint8Array): string {
+	const alphabet = 'abcdefghijklmnopqrstuvwxyz234567';
+	let result = '';
+	let buffer = 0;
+	let bits = 0;
+	for (let i = 0; i < bytes.length; i++) {
+		buffer = (buffer << 8) | bytes[i];
+		bits += 8;
+		while (bits >= 5) {
+			result += alphabet[(buffer >> (bits - 5)) & 31];
+			bits -= 5;
+		}
+		buffer &= (1 << bits) - 1;
+	}
+	if (bits > 0) result += alphabet[(buffer << (5 - bits)) & 31];
+	return result;
+}
@@ -0,0 +1,121 @@
+import { parseYaml } from 'obsidian';
+
+export type BlockLayout = 'cards' | 'compact' | 'list' | 'timeline';
+
+// headers between tweets by time of day
+export type TimeGrouping = 'none' | 'part-of-day' | 'hour';
+
+/**
+ * Tweet types a block can pull in on top of original tweets
+ */
+export type BlockInclude = 'replies' | 'threads' | 'retweets' | 'quotes' | 'deleted' | 'likes' | 'bookmarks' | 'messages';
+
+/**
+ * Options of a ```twitter-diary block
+ */
+export interface DiaryBlockOptions {
+	// single day, defaults to the note's date
+	date?: string;
+	from?: string;
+	to?: string;
+	// overrides the settings when given
+	include?: BlockInclude[];
+	limit?: number;
+	sort?: 'oldest' | 'newest';
+	// defaults to the layout setting
+	layout?: BlockLayout;
+	// defaults to the time grouping setting
+	group?: TimeGrouping;
+	query?: string;
+	// show the same day in earlier years instead
+	onThisDay?: boolean;
+	// a year, or "all", to show the stats dashboard instead of tweets
+	stats?: string;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+const LAYOUTS: BlockLayout[] = ['cards', 'compact', 'list', 'timeline'];
+const GROUPINGS: TimeGrouping[] = ['none', 'part-of-day', 'hour'];
+const INCLUDES: BlockInclude[] = ['replies', 'threads', 'retweets', 'quotes', 'deleted', 'likes', 'bookmarks', 'messages'];
+
+/**
+ * Parses the body of a twitter-diary block, e.g.
+ *
+ *     from: 2024-01-01
+ *     to: 2024-01-07
+ *     include: [replies, retweets]
+ *     layout: compact
+ *
+ * Throws with a readable message when an option doesn't make sense.
+ */
+export function parseBlockOptions(source: string): DiaryBlockOptions {
+	const raw = source.trim() ? parseYaml(source) : {};
+	if (raw == null || typeof raw !== 'object' || Array.isArray(raw)) {
+		throw new Error('options should be "key: value" lines');
+	}
+
+	const options: DiaryBlockOptions = {};
+
+	for (const key of ['date', 'from', 'to'] as const) {
+		if (raw[key] == null) continue;
+		// YAML turns unquoted dates into Date objects
+		const value = raw[key] instanceof Date ? raw[key].toISOString().split('T')[0] : String(raw[key]);
+		if (!DAY.test(value)) throw new Error(`${key} should look like YYYY-MM-DD, got "${value}"`);
+		options[key] = value;
+	}
+
+	if (options.date && (options.from || options.to)) {
+		throw new Error('use either date or from/to, not both');
+	}
+	if (options.from && options.to && options.from > options.to) {
+		throw new Error('from is after to');
+	}
+
+	if (raw.include != null) {
+		const include = (Array.isArray(raw.include) ? raw.include : [raw.include]).map(String);
+		const unknown = include.filter((value: string) => INCLUDES.indexOf(value as BlockInclude) === -1);
+		if (unknown.length > 0) {
+			throw new Error(`unknown include "${unknown[0]}", expected one of ${INCLUDES.join(', ')}`);
+		}
+		options.include = include;
+	}
+
+	if (raw.limit != null) {
+		const limit = Number(raw.limit);
+		if (!(limit > 0) || Math.floor(limit) !== limit) throw new Error('limit should be a positive number');
+		options.limit = limit;
+	}
+
+	if (raw.sort != null) {
+		if (raw.sort !== 'oldest' && raw.sort !== 'newest') throw new Error('sort should be oldest or newest');
+		options.sort = raw.sort;
+	}
+
+	if (raw.layout != null) {
+		if (LAYOUTS.indexOf(raw.layout) === -1) throw new Error(`layout should be one of ${LAYOUTS.join(', ')}`);
+		options.layout = raw.layout;
+	}
+
+	if (raw.group != null) {
+		if (GROUPINGS.indexOf(raw.group) === -1) throw new Error(`group should be one of ${GROUPINGS.join(', ')}`);
+		options.group = raw.group;
+	}
+
+	if (raw.query != null) {
+		options.query = String(raw.query);
+	}
+
+	if (raw['on-this-day'] != null) {
+		if (typeof raw['on-this-day'] !== 'boolean') throw new Error('on-this-day should be true or false');
+		if (raw['on-this-day'] && (options.from || options.to)) throw new Error('on-this-day takes a date, not from/to');
+		options.onThisDay = raw['on-this-day'];
+	}
+
+	if (raw.stats != null) {
+		const stats = String(raw.stats);
+		if (stats !== 'all' && !/^\d{4}$/.test(stats)) throw new Error('stats should be a year or all');
+		options.stats = stats;
+	}
+
+	return options;
+}
@@ -0,0 +1,64 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Asks for a from/to pair of YYYY-MM-DD dates. Subclasses can ask for more
+ * in `addFields`, see ExportModal
+ */
+export class DateRangeModal extends Modal {
+	private from = '';
+	private to = '';
+
+	constructor(
+		app: App,
+		private title: string,
+		private onSubmit: (from: string, to: string) => void,
+		private buttonText = 'Go',
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(this.title);
+
+		new Setting(contentEl)
+			.setName('From')
+			.addText(text => text
+				.setPlaceholder('YYYY-MM-DD')
+				.onChange(value => { this.from = value.trim(); }));
+
+		new Setting(contentEl)
+			.setName('To')
+			.addText(text => text
+				.setPlaceholder('YYYY-MM-DD')
+				.onChange(value => { this.to = value.trim(); }));
+
+		this.addFields(contentEl);
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(this.buttonText)
+				.setCta()
+				.onClick(() => {
+					if (!DAY.test(this.from) || !DAY.test(this.to)) {
+						new Notice('Dates should look like YYYY-MM-DD');
+						return;
+					}
+					if (this.from > this.to) {
+						new Notice('From is after to');
+						return;
+					}
+					this.close();
+					this.onSubmit(this.from, this.to);
+				}));
+	}
+
+	// settings between the dates and the button
+	protected addFields(contentEl: HTMLElement) {}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
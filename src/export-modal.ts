@@ -0,0 +1,26 @@
+import { App, Setting } from 'obsidian';
+import { DateRangeModal } from './date-range-modal';
+import { ExportFormat } from './export';
+
+/**
+ * Asks for a from/to pair of YYYY-MM-DD dates and what to export them as
+ */
+export class ExportModal extends DateRangeModal {
+	private format: ExportFormat = 'html';
+
+	constructor(app: App, onSubmit: (from: string, to: string, format: ExportFormat) => void) {
+		super(app, 'Export tweets', (from, to) => onSubmit(from, to, this.format), 'Export');
+	}
+
+	protected addFields(contentEl: HTMLElement) {
+		new Setting(contentEl)
+			.setName('Format')
+			.setDesc('HTML and JSON are saved outside the vault, Markdown becomes a note')
+			.addDropdown(dropdown => dropdown
+				.addOption('html', 'HTML page')
+				.addOption('markdown', 'Markdown note')
+				.addOption('json', 'JSON')
+				.setValue(this.format)
+				.onChange(value => { this.format = value as ExportFormat; }));
+	}
+}
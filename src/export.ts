@@ -0,0 +1,224 @@
+import { Notice, TFile, normalizePath } from 'obsidian';
+import * as fs from 'fs/promises';
+import type TwitterDiaryPlugin from '../main';
+import { DirectMessage, SavedTweet } from './activity';
+import { Tweet } from './tweet';
+import { eachDay } from './time';
+import { tweetsBlock } from './markdown';
+
+export type ExportFormat = 'html' | 'markdown' | 'json';
+
+/**
+ * What a JSON export holds, one entry per day with tweets or activity
+ */
+export interface TweetExport {
+	version: 1;
+	from: string;
+	to: string;
+	days: {
+		day: string;
+		// the avatar is a local file, so it's left out
+		account: { username: string, handle: string };
+		tweets: Tweet[];
+		likes?: SavedTweet[];
+		bookmarks?: SavedTweet[];
+		messages?: DirectMessage[];
+	}[];
+}
+
+// stands in for Obsidian's theme variables that styles.css builds on
+const PAGE_STYLES = `
+body {
+	--background-primary: #ffffff;
+	--background-secondary: #f6f6f6;
+	--background-secondary-alt: #e9e9e9;
+	--background-modifier-border: #dddddd;
+	--text-normal: #222222;
+	--text-muted: #6b6b6b;
+	--text-error: #e0245e;
+	--font-interface: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+	max-width: 640px;
+	margin: 0 auto;
+	padding: 24px;
+	font-family: var(--font-interface);
+	background-color: var(--background-primary);
+	color: var(--text-normal);
+}
+
+@media (prefers-color-scheme: dark) {
+	body {
+		--background-primary: #1e1e1e;
+		--background-secondary: #262626;
+		--background-secondary-alt: #333333;
+		--background-modifier-border: #3f3f3f;
+		--text-normal: #dcddde;
+		--text-muted: #999999;
+	}
+}
+`;
+
+/**
+ * Exports a range of days the way the diary shows them: a standalone HTML
+ * page, a Markdown digest in the vault, or JSON without the `window.YTD` wrapper
+ */
+export class TweetExporter {
+	constructor(private plugin: TwitterDiaryPlugin) {}
+
+	/**
+	 * A self-contained page with the diary's cards, media inlined as data URLs
+	 */
+	async toHtml(from: string, to: string): Promise<string> {
+		const plugin = this.plugin;
+		const body = document.createElement('div');
+		body.className = 'twitter-diary';
+
+		for (const day of eachDay(from, to)) {
+			const date = new Date(day);
+			const tweets = await plugin.getTweetsForDate(date);
+			const section = document.createElement('section');
+			await plugin.renderActivity(section, [day], plugin.settings);
+			if (tweets.length === 0 && !section.hasChildNodes()) continue;
+
+			const heading = document.createElement('h2');
+			heading.textContent = day;
+			body.appendChild(heading);
+
+			const account = await plugin.account.info(date);
+			plugin.renderTweets(body, tweets.map(tweet => ({ tweet, account })), plugin.settings.layout);
+			body.appendChild(section);
+		}
+		const missing = await inlineMedia(body);
+		if (missing > 0) {
+			new Notice(`Left out ${missing} media ${missing === 1 ? 'file' : 'files'} that couldn't be read`);
+		}
+
+		const title = from === to ? `Tweets on ${from}` : `Tweets from ${from} to ${to}`;
+		return [
+			'<!DOCTYPE html>',
+			'<html>',
+			'<head>',
+			'<meta charset="utf-8">',
+			'<meta name="viewport" content="width=device-width, initial-scale=1">',
+			`<title>${escapeHtml(title)}</title>`,
+			`<style>${PAGE_STYLES}\n${await this.stylesheet()}</style>`,
+			'</head>',
+			'<body>',
+			`<h1>${escapeHtml(title)}</h1>`,
+			body.outerHTML,
+			'</body>',
+			'</html>',
+		].join('\n');
+	}
+
+	/**
+	 * One note with a heading and the tweet callouts for every day with tweets
+	 */
+	async toMarkdown(from: string, to: string): Promise<string> {
+		const sections = [from === to ? `# Tweets on ${from}` : `# Tweets from ${from} to ${to}`];
+		for (const day of eachDay(from, to)) {
+			const tweets = await this.plugin.queryTweets(new Date(day));
+			if (tweets.length === 0) continue;
+			sections.push(`## ${day}`, tweetsBlock(await this.plugin.writer.toMarkdown(tweets)));
+		}
+		return sections.join('\n\n') + '\n';
+	}
+
+	/**
+	 * The diary's tweets with their original media URLs
+	 */
+	async toJson(from: string, to: string): Promise<string> {
+		const { settings } = this.plugin;
+		const result: TweetExport = { version: 1, from, to, days: [] };
+
+		for (const day of eachDay(from, to)) {
+			const tweets = await this.plugin.queryTweets(new Date(day));
+			const activity = await this.plugin.archive.getActivityForDay(day);
+			const { username, handle } = await this.plugin.account.at(new Date(day));
+			const entry: TweetExport['days'][number] = { day, account: { username, handle }, tweets };
+			if (settings.includeLikes) entry.likes = activity.likes;
+			if (settings.includeBookmarks) entry.bookmarks = activity.bookmarks;
+			if (settings.includeDirectMessages) entry.messages = activity.messages;
+
+			const empty = tweets.length === 0 && !(entry.likes && entry.likes.length)
+				&& !(entry.bookmarks && entry.bookmarks.length) && !(entry.messages && entry.messages.length);
+			if (!empty) result.days.push(entry);
+		}
+		return JSON.stringify(result, null, '\t');
+	}
+
+	/**
+	 * Writes HTML or JSON to `file` outside the vault
+	 */
+	async exportFile(from: string, to: string, format: 'html' | 'json', file: string) {
+		const contents = format === 'html' ? await this.toHtml(from, to) : await this.toJson(from, to);
+		await fs.writeFile(file, contents, 'utf8');
+	}
+
+	/**
+	 * Writes the Markdown digest into the vault, replacing an earlier export of the same range
+	 */
+	async exportNote(from: string, to: string): Promise<TFile> {
+		const vault = this.plugin.app.vault;
+		const notePath = normalizePath(from === to ? `Tweets ${from}.md` : `Tweets ${from} to ${to}.md`);
+		const contents = await this.toMarkdown(from, to);
+
+		const existing = vault.getAbstractFileByPath(notePath);
+		if (existing instanceof TFile) {
+			await vault.modify(existing, contents);
+			return existing;
+		}
+		return vault.create(notePath, contents);
+	}
+
+	private async stylesheet(): Promise<string> {
+		const dir = this.plugin.manifest.dir;
+		try {
+			return dir ? await this.plugin.app.vault.adapter.read(`${dir}/styles.css`) : '';
+		} catch (error) {
+			console.error('Error reading styles.css:', error);
+			return '';
+		}
+	}
+}
+
+/**
+ * Swaps the app:// URLs of local media and avatars for data URLs, so the
+ * page works without the archive or the vault. Remote URLs stay as they are,
+ * what can't be read is removed. Returns how many files were left out
+ */
+async function inlineMedia(element: HTMLElement): Promise<number> {
+	const elements = Array.from(element.querySelectorAll('img, video, source')) as (HTMLImageElement | HTMLVideoElement)[];
+	const inlined = new Map<string, string>();
+	let missing = 0;
+
+	for (const el of elements) {
+		const src = el.getAttribute('src');
+		if (!src || /^(https?|data):/.test(src)) continue;
+
+		if (!inlined.has(src)) {
+			try {
+				inlined.set(src, await toDataUrl(await (await fetch(src)).blob()));
+			} catch (error) {
+				// expected without remote media, the notice sums them up
+				inlined.set(src, '');
+				missing++;
+			}
+		}
+		if (inlined.get(src)) el.setAttribute('src', inlined.get(src)!);
+		else el.remove();
+	}
+	return missing;
+}
+
+function toDataUrl(blob: Blob): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsDataURL(blob);
+	});
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,261 @@
+import { DataAdapter, requestUrl } from 'obsidian';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ArchiveTweet, SourceContents, SourceStamp, TweetSource, parseYTD } from './archive';
+import { isSafeUrl } from './text';
+import { compareIds } from './tweet';
+
+export interface SyncSettings {
+	// base URL of a Twitter-compatible API, off when empty
+	syncUrl: string;
+	syncToken: string;
+}
+
+/**
+ * Reads every .json, .jsonl and .js file in a folder, for tweets from
+ * third-party exporters or anything else that can write JSON
+ */
+export class FolderSource implements TweetSource {
+	constructor(private getFolder: () => string) {}
+
+	async stamp(): Promise<SourceStamp[]> {
+		const folder = this.getFolder();
+		if (!folder) return [];
+
+		let entries: string[];
+		try {
+			entries = await fs.readdir(folder);
+		} catch (error) {
+			// the archive still works without it
+			console.warn(`Can't open the tweet folder ${folder}:`, error);
+			return [];
+		}
+
+		const stamps: SourceStamp[] = [];
+		for (const name of entries.filter(name => /\.(json|jsonl|js)$/i.test(name)).sort()) {
+			const file = path.join(folder, name);
+			const stat = await fs.stat(file);
+			if (stat.isFile()) stamps.push({ file, kind: 'tweets', mtime: stat.mtimeMs, size: stat.size });
+		}
+		return stamps;
+	}
+
+	async read(stamps: SourceStamp[]): Promise<SourceContents> {
+		let tweets: ArchiveTweet[] = [];
+		for (const stamp of stamps) {
+			try {
+				tweets = tweets.concat(toArchiveTweets(parseFeed(await fs.readFile(stamp.file, 'utf8'))));
+			} catch (error) {
+				console.warn(`Skipping unreadable tweet file ${stamp.file}:`, error);
+			}
+		}
+		return { tweets };
+	}
+}
+
+/**
+ * Pulls new tweets from `<syncUrl>/tweets?since_id=<newest we have>` and keeps
+ * everything it got in a file next to the index, so they survive rebuilds
+ */
+export class HttpSource implements TweetSource {
+	constructor(
+		private adapter: DataAdapter,
+		private cachePath: string,
+		private getSettings: () => SyncSettings,
+	) {}
+
+	async stamp(): Promise<SourceStamp[]> {
+		if (!this.getSettings().syncUrl) return [];
+		const stat = await this.adapter.stat(this.cachePath);
+		return stat ? [{ file: this.cachePath, kind: 'tweets', mtime: stat.mtime, size: stat.size }] : [];
+	}
+
+	async read(): Promise<SourceContents> {
+		return { tweets: await this.cached() };
+	}
+
+	/**
+	 * Fetches tweets newer than the newest one synced so far and saves them.
+	 * Returns the ones that weren't there before
+	 */
+	async sync(): Promise<ArchiveTweet[]> {
+		const { syncUrl, syncToken } = this.getSettings();
+		if (!syncUrl) return [];
+
+		const cached = await this.cached();
+		const known = new Set(cached.map(tweet => tweet.id_str));
+		const newest = cached.reduce((max: string, tweet) => compareIds(tweet.id_str, max) > 0 ? tweet.id_str : max, '');
+
+		const url = `${syncUrl.replace(/\/+$/, '')}/tweets${newest ? `?since_id=${encodeURIComponent(newest)}` : ''}`;
+		const response = await requestUrl({
+			url,
+			headers: syncToken ? { Authorization: `Bearer ${syncToken}` } : {},
+			throw: false,
+		});
+		if (response.status >= 400) {
+			throw new Error(`${url} answered ${response.status}`);
+		}
+
+		const fresh = toArchiveTweets(parseFeed(response.text)).filter(tweet => !known.has(tweet.id_str));
+		if (fresh.length > 0) {
+			await this.adapter.write(this.cachePath, JSON.stringify(cached.concat(fresh)));
+		}
+		return fresh;
+	}
+
+	private async cached(): Promise<ArchiveTweet[]> {
+		try {
+			if (!(await this.adapter.exists(this.cachePath))) return [];
+			return JSON.parse(await this.adapter.read(this.cachePath));
+		} catch (error) {
+			console.warn('Discarding unreadable synced tweets:', error);
+			return [];
+		}
+	}
+}
+
+/**
+ * Reads a feed file: an archive `window.YTD` file, a JSON array, an object
+ * with a `tweets` array, a Twitter Diary JSON export, or one JSON object per line
+ */
+export function parseFeed(contents: string): any[] {
+	const trimmed = contents.trim();
+	if (!trimmed) return [];
+	if (/^window\.YTD\./.test(trimmed)) return parseYTD(trimmed);
+
+	let parsed: any;
+	try {
+		parsed = JSON.parse(trimmed);
+	} catch (error) {
+		// JSON Lines, a broken line shouldn't cost the rest
+		const items: any[] = [];
+		for (const line of trimmed.split(/\r?\n/)) {
+			if (!line.trim()) continue;
+			try {
+				items.push(JSON.parse(line));
+			} catch (lineError) {
+				console.warn('Skipping unreadable line:', line.slice(0, 80));
+			}
+		}
+		return items;
+	}
+
+	if (Array.isArray(parsed)) return parsed;
+	if (parsed && Array.isArray(parsed.tweets)) return parsed.tweets;
+	if (parsed && Array.isArray(parsed.days)) {
+		return parsed.days.reduce((all: any[], day: any) => all.concat(day.tweets || []), []);
+	}
+	return [parsed];
+}
+
+/**
+ * Turns whatever a feed has into tweets in the archive's shape, dropping
+ * anything without an ID or a date
+ */
+export function toArchiveTweets(items: any[]): ArchiveTweet[] {
+	const tweets: ArchiveTweet[] = [];
+	for (const item of items) {
+		const tweet = toArchiveTweet(item);
+		if (tweet) tweets.push(tweet);
+	}
+	return tweets;
+}
+
+function toArchiveTweet(item: any): ArchiveTweet | null {
+	if (!item || typeof item !== 'object') return null;
+	// archive entries wrap the tweet
+	if (item.tweet && typeof item.tweet === 'object') item = item.tweet;
+
+	const id = item.id_str || item.id;
+	const created = item.created_at || item.timestamp || item.date;
+	if (id == null || !created || isNaN(new Date(created).getTime())) return null;
+
+	// already in the archive's shape. Only the fields the archive has, so a
+	// feed can't pass its tweets off as another network's or point media at local files
+	if (item.full_text != null && item.created_at) {
+		const extended = item.extended_entities || {};
+		return {
+			id: String(id),
+			id_str: String(id),
+			full_text: String(item.full_text),
+			created_at: String(item.created_at),
+			favorite_count: String(item.favorite_count || 0),
+			retweet_count: String(item.retweet_count || 0),
+			display_text_range: Array.isArray(item.display_text_range) ? item.display_text_range.map(String) : undefined,
+			in_reply_to_status_id_str: stringOrUndefined(item.in_reply_to_status_id_str || item.in_reply_to_status_id),
+			in_reply_to_screen_name: stringOrUndefined(item.in_reply_to_screen_name),
+			entities: item.entities && typeof item.entities === 'object' ? item.entities : entitiesOf(String(item.full_text)),
+			extended_entities: { media: (Array.isArray(extended.media) ? extended.media : []).filter(isRemoteMedia) },
+			network: 'twitter',
+		};
+	}
+
+	// the diary's own shape, e.g. from a JSON export
+	let text = String(item.text != null ? item.text : item.full_text || '');
+	if (item.retweetOf) text = `RT @${item.retweetOf}: ${text}`;
+	if (item.quoted && item.quoted.url && text.indexOf(item.quoted.url) === -1) text += ` ${item.quoted.url}`;
+	const replyTo = item.replyTo || {};
+
+	return {
+		id: String(id),
+		id_str: String(id),
+		full_text: text,
+		created_at: new Date(created).toISOString(),
+		favorite_count: String(item.likes != null ? item.likes : item.favorite_count || 0),
+		retweet_count: String(item.retweets != null ? item.retweets : item.retweet_count || 0),
+		in_reply_to_status_id_str: replyTo.id || item.in_reply_to_status_id_str || undefined,
+		in_reply_to_screen_name: replyTo.handle || item.in_reply_to_screen_name || undefined,
+		deleted: !!item.deleted || undefined,
+		entities: entitiesOf(text),
+		extended_entities: { media: (Array.isArray(item.media) ? item.media : []).map(toArchiveMedia).filter(isRemoteMedia) },
+		network: 'twitter',
+	};
+}
+
+function stringOrUndefined(value: any): string | undefined {
+	return value != null && value !== '' ? String(value) : undefined;
+}
+
+/**
+ * Feeds only get remote media, a file path would be read off the disk like
+ * a Mastodon export's
+ */
+function isRemoteMedia(media: any): boolean {
+	if (!media || typeof media !== 'object') return false;
+	const variants = media.video_info && Array.isArray(media.video_info.variants) ? media.video_info.variants : [];
+	return [media.url, media.media_url_https, media.media_url].concat(variants.map((variant: any) => variant && variant.url))
+		.every(url => url == null || (typeof url === 'string' && isSafeUrl(url)))
+		&& typeof media.media_url_https === 'string';
+}
+
+/**
+ * Hashtags, mentions and links the way the archive lists them. The diary
+ * finds them in the text, so they don't need indices
+ */
+function entitiesOf(text: string) {
+	const matches = (pattern: RegExp) => {
+		const found: string[] = [];
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(text))) found.push(match[1]);
+		return found;
+	};
+	return {
+		hashtags: matches(/(?:^|[^\w&])#(\w+)/g).map(tag => ({ text: tag })),
+		user_mentions: matches(/(?:^|[^\w])@(\w{1,15})/g).map(name => ({ screen_name: name })),
+		urls: matches(/(https?:\/\/\S+)/g).map(url => ({ url, expanded_url: url })),
+	};
+}
+
+// TweetMedia back into an extended_entities item
+function toArchiveMedia(media: any) {
+	const type = media.type === 'gif' ? 'animated_gif' : media.type === 'video' ? 'video' : 'photo';
+	return {
+		type,
+		// the archive has the t.co link from the text here, this one just isn't in there
+		url: media.url,
+		media_url_https: media.url,
+		ext_alt_text: media.alt || undefined,
+		original_info: { width: media.width || 0, height: media.height || 0 },
+		video_info: type === 'photo' ? undefined : { variants: [{ content_type: 'video/mp4', url: media.url, bitrate: '0' }] },
+	};
+}
@@ -0,0 +1,184 @@
+import { App, Modal, TFolder, normalizePath } from 'obsidian';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { findParts, parseYTD } from './archive';
+import { localName } from './media';
+import { toMedia } from './tweet';
+
+// archive files the plugin knows about, in the order the report lists them
+const KNOWN_FILES = [
+	'tweets', 'deleted-tweets', 'like', 'bookmark', 'direct-messages', 'direct-messages-group',
+	'account', 'profile', 'screen-name-change',
+];
+
+/**
+ * What "Check archive" found
+ */
+export interface ArchiveReport {
+	dataPath: string;
+	// each known file with its -partN files, missing ones have none
+	files: { name: string, parts: string[] }[];
+	tweets: number;
+	deletedTweets: number;
+	// diary days of the first and last tweet
+	firstDay: string;
+	lastDay: string;
+	mediaReferenced: number;
+	mediaFound: number;
+	errors: string[];
+}
+
+/**
+ * Problem with the archive folder setting, empty when it looks fine
+ */
+export async function validateDataPath(dataPath: string): Promise<string> {
+	// fine with only a Mastodon or Bluesky export
+	if (!dataPath) return '';
+	if (!path.isAbsolute(dataPath)) return 'Should be an absolute path, e.g. /Users/you/twitter-2024-01-01/data';
+
+	let files: string[];
+	try {
+		files = await fs.readdir(dataPath);
+	} catch (error) {
+		return `Can't open ${dataPath}`;
+	}
+
+	if (findParts(files, 'tweets').length === 0) {
+		return files.indexOf('data') !== -1
+			? 'No tweets.js in here, but there is a data folder. Point this at that one'
+			: 'No tweets.js in this folder';
+	}
+	return '';
+}
+
+/**
+ * Problem with a vault folder setting, empty when it looks fine
+ */
+export function validateVaultFolder(app: App, folderPath: string, required: boolean): string {
+	if (!folderPath) return required ? 'Set a folder in your vault' : '';
+	if (path.isAbsolute(folderPath) || /^[a-zA-Z]:[\\/]/.test(folderPath)) {
+		return 'Should be a folder inside your vault, e.g. Daily Log, not an absolute path';
+	}
+	if (!(app.vault.getAbstractFileByPath(normalizePath(folderPath)) instanceof TFolder)) {
+		return `There's no ${folderPath} folder in your vault`;
+	}
+	return '';
+}
+
+/**
+ * Reads the whole archive the way the diary would and counts what's in it
+ */
+export async function checkArchive(dataPath: string, toDay: (timestamp: string) => string): Promise<ArchiveReport> {
+	const report: ArchiveReport = {
+		dataPath,
+		files: [],
+		tweets: 0,
+		deletedTweets: 0,
+		firstDay: '',
+		lastDay: '',
+		mediaReferenced: 0,
+		mediaFound: 0,
+		errors: [],
+	};
+
+	const problem = await validateDataPath(dataPath);
+	if (problem) report.errors.push(problem);
+
+	let files: string[];
+	try {
+		files = await fs.readdir(dataPath);
+	} catch (error) {
+		return report;
+	}
+	report.files = KNOWN_FILES.map(name => ({ name, parts: findParts(files, name) }));
+
+	let localMedia = new Set<string>();
+	try {
+		localMedia = new Set(await fs.readdir(path.join(dataPath, 'tweets_media')));
+	} catch (error) {
+		report.errors.push('No tweets_media folder, media will only show when remote media is allowed');
+	}
+
+	for (const name of ['tweets', 'deleted-tweets']) {
+		for (const part of findParts(files, name)) {
+			let entries: any[];
+			try {
+				entries = parseYTD(await fs.readFile(path.join(dataPath, part), 'utf8'));
+			} catch (error) {
+				report.errors.push(`${part} couldn't be read: ${error.message}`);
+				continue;
+			}
+
+			for (const entry of entries) {
+				const tweet = entry && entry.tweet;
+				if (!tweet || !tweet.created_at) {
+					report.errors.push(`${part} has an entry without a tweet or date`);
+					continue;
+				}
+
+				if (name === 'tweets') report.tweets++;
+				else report.deletedTweets++;
+
+				const day = toDay(tweet.created_at);
+				if (!report.firstDay || day < report.firstDay) report.firstDay = day;
+				if (!report.lastDay || day > report.lastDay) report.lastDay = day;
+
+				for (const item of toMedia(tweet)) {
+					report.mediaReferenced++;
+					if (localMedia.has(localName(tweet.id_str || tweet.id, item.url))) report.mediaFound++;
+				}
+			}
+		}
+	}
+
+	return report;
+}
+
+/**
+ * Shows an ArchiveReport
+ */
+export class ArchiveReportModal extends Modal {
+	constructor(app: App, private report: ArchiveReport) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const report = this.report;
+		contentEl.createEl('h2', { text: 'Twitter archive' });
+		contentEl.createEl('p', { text: report.dataPath || 'No archive folder set' });
+
+		if (report.files.length > 0) {
+			contentEl.createEl('h4', { text: 'Files' });
+			const list = contentEl.createEl('ul');
+			for (const file of report.files) {
+				list.createEl('li', {
+					text: file.parts.length > 0 ? `✓ ${file.parts.join(', ')}` : `✗ ${file.name}.js not found`,
+				});
+			}
+
+			contentEl.createEl('h4', { text: 'Contents' });
+			const contents = contentEl.createEl('ul');
+			contents.createEl('li', { text: `${report.tweets} tweets, ${report.deletedTweets} deleted tweets` });
+			if (report.firstDay) {
+				contents.createEl('li', { text: `From ${report.firstDay} to ${report.lastDay}` });
+			}
+			contents.createEl('li', { text: `${report.mediaFound} of ${report.mediaReferenced} photos and videos found in tweets_media` });
+		}
+
+		if (report.errors.length > 0) {
+			contentEl.createEl('h4', { text: 'Problems' });
+			const problems = contentEl.createEl('ul', { cls: 'twitter-diary-error' });
+			// one broken file can complain about every entry
+			const shown = report.errors.slice(0, 20);
+			shown.forEach(error => problems.createEl('li', { text: error }));
+			if (report.errors.length > shown.length) {
+				problems.createEl('li', { text: `and ${report.errors.length - shown.length} more` });
+			}
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
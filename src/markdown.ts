@@ -0,0 +1,120 @@
+import { NETWORK_NAMES, Tweet, TweetMedia } from './tweet';
+import { formatTimestamp } from './time';
+import { TextToken, isSafeUrl } from './text';
+
+// re-running a write replaces whatever sits between these
+export const BLOCK_BEGIN = '%% twitter-diary:begin %%';
+export const BLOCK_END = '%% twitter-diary:end %%';
+
+export interface MarkdownOptions {
+	timeZone: string;
+	permalink: (tweet: Tweet) => string;
+	// markdown embed for a media item, empty to leave it out
+	embed: (tweet: Tweet, media: TweetMedia) => string;
+	// where @mentions and #hashtags link to, null for no link
+	mentionLink: (name: string) => string | null;
+	hashtagLink: (name: string) => string | null;
+}
+
+/**
+ * A tweet as a `[!tweet]` callout with its text, media, counts and a permalink
+ */
+export function tweetToMarkdown(tweet: Tweet, options: MarkdownOptions): string {
+	let title = markdownLink(formatTimestamp(tweet.timestamp, options.timeZone), options.permalink(tweet));
+	if (tweet.retweetOf) title = `You reposted @${tweet.retweetOf} · ${title}`;
+	if (tweet.deleted) title += ' (deleted)';
+	if (tweet.network !== 'twitter') title += ` · ${NETWORK_NAMES[tweet.network]}`;
+
+	const lines = [`[!tweet] ${title}`];
+	if (tweet.replyTo && tweet.replyTo.handle) {
+		lines.push(`Replying to @${tweet.replyTo.handle}`, '');
+	}
+	lines.push(...tweetBody(tweet, options));
+
+	if (tweet.quoted) {
+		const quoted = tweet.quoted.tweet
+			? [`[!quote] ${markdownLink('Quoted tweet', tweet.quoted.url)}`, ...tweetBody(tweet.quoted.tweet, options)]
+			: [`[!quote] ${isSafeUrl(tweet.quoted.url) ? angleUrl(tweet.quoted.url) : 'Quoted tweet'}`];
+		lines.push('', ...quoted.map(quote));
+	}
+
+	for (const part of tweet.thread) {
+		lines.push('', markdownLink(formatTimestamp(part.timestamp, options.timeZone), options.permalink(part)));
+		lines.push(...tweetBody(part, options));
+	}
+
+	// other networks' exports don't have counts
+	if (tweet.network === 'twitter') lines.push('', `${tweet.retweets} retweets · ${tweet.likes} likes`);
+	return lines.map(quote).join('\n');
+}
+
+function tweetBody(tweet: Tweet, options: MarkdownOptions): string[] {
+	const lines = tokensToMarkdown(tweet.tokens, options).split('\n');
+	const embeds = tweet.media.map(item => options.embed(tweet, item)).filter(embed => embed);
+	return embeds.length > 0 ? lines.concat('', ...embeds) : lines;
+}
+
+// `text` linking to `url`, just the text when the URL isn't http(s)
+function markdownLink(text: string, url: string): string {
+	return isSafeUrl(url) ? `[${text}](${angleUrl(url)})` : text;
+}
+
+// a URL in <>, which can't end early on brackets or spaces in it
+function angleUrl(url: string): string {
+	return `<${url.replace(/[<>\s]/g, encodeURIComponent)}>`;
+}
+
+function quote(line: string): string {
+	return line ? `> ${line}` : '>';
+}
+
+/**
+ * Turns tweet text into Markdown, escaping anything Markdown would pick up
+ */
+export function tokensToMarkdown(tokens: TextToken[], options: Pick<MarkdownOptions, 'mentionLink' | 'hashtagLink'>): string {
+	const link = (text: string, href: string | null) =>
+		href ? `[${escapeMarkdown(text)}](${href})` : escapeMarkdown(text);
+
+	return tokens.map(token => {
+		switch (token.type) {
+			case 'url':
+				return isSafeUrl(token.url) ? angleUrl(token.url) : escapeMarkdown(token.display);
+			case 'hashtag':
+				// escaped so Obsidian doesn't turn every hashtag into a tag
+				return link('#' + token.text, options.hashtagLink(token.text));
+			case 'mention':
+				return link('@' + token.text, options.mentionLink(token.text));
+			case 'symbol':
+				return escapeMarkdown('$' + token.text);
+			default:
+				return escapeMarkdown(token.text);
+		}
+	}).join('');
+}
+
+function escapeMarkdown(text: string): string {
+	return text
+		.replace(/([\\`*_[\]<>|~#$])/g, '\\$1')
+		.replace(/^(\s*)([-+]\s|\d+\.\s)/gm, '$1\\$2');
+}
+
+/**
+ * Wraps the tweet callouts in begin/end markers
+ */
+export function tweetsBlock(callouts: string[]): string {
+	return [BLOCK_BEGIN, ...callouts, BLOCK_END].join('\n\n');
+}
+
+/**
+ * Replaces the tweets block in a note, or appends one if there isn't any yet
+ */
+export function upsertTweetsBlock(note: string, block: string): string {
+	const begin = note.indexOf(BLOCK_BEGIN);
+	const end = note.indexOf(BLOCK_END, begin);
+
+	if (begin !== -1 && end !== -1) {
+		return note.slice(0, begin) + block + note.slice(end + BLOCK_END.length);
+	}
+	const before = note.replace(/\s+$/, '');
+	return before ? `${before}\n\n${block}\n` : `${block}\n`;
+}
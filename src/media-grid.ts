@@ -0,0 +1,129 @@
+import { App, Modal } from 'obsidian';
+import { TweetMedia } from './tweet';
+
+// the grid has room for four, the rest are behind "+N" and in the lightbox
+const GRID_SIZE = 4;
+
+/**
+ * The media of a tweet laid out like Twitter does: one large item, two side
+ * by side, one tall and two stacked, or a 2x2 grid. Clicking an item opens
+ * it in a lightbox that can step through all of them
+ */
+export function renderMediaGrid(app: App, media: TweetMedia[]): HTMLElement {
+	const container = document.createElement('div');
+	container.className = 'tweet-media';
+
+	const shown = media.slice(0, GRID_SIZE);
+	const grid = document.createElement('div');
+	grid.className = shown.length === 1 ? 'tweet-media-single' : `tweet-media-grid tweet-media-grid-${shown.length}`;
+
+	shown.forEach((item, index) => {
+		const wrapper = document.createElement('div');
+		wrapper.className = 'tweet-media-item';
+		// a single item keeps its shape, and the space is there before it loads
+		if (shown.length === 1 && item.width && item.height) {
+			wrapper.style.aspectRatio = `${item.width} / ${item.height}`;
+		}
+		wrapper.appendChild(renderMediaElement(item, false));
+
+		if (item.type === 'video') {
+			const play = document.createElement('div');
+			play.className = 'tweet-media-play';
+			wrapper.appendChild(play);
+		}
+
+		if (index === GRID_SIZE - 1 && media.length > GRID_SIZE) {
+			const more = document.createElement('div');
+			more.className = 'tweet-media-more';
+			more.textContent = '+' + (media.length - GRID_SIZE);
+			wrapper.appendChild(more);
+		}
+
+		wrapper.addEventListener('click', (event) => {
+			event.preventDefault();
+			new MediaLightbox(app, media, index).open();
+		});
+		grid.appendChild(wrapper);
+	});
+
+	container.appendChild(grid);
+	return container;
+}
+
+/**
+ * An img or video for the item. GIFs loop silently like on Twitter, videos
+ * only get controls in the lightbox so a click in the grid opens it instead
+ */
+function renderMediaElement(item: TweetMedia, inLightbox: boolean): HTMLElement {
+	if (item.type === 'photo') {
+		const img = document.createElement('img');
+		img.src = item.url;
+		img.alt = item.alt;
+		img.loading = 'lazy';
+		return img;
+	}
+
+	const video = document.createElement('video');
+	video.src = item.url;
+	video.muted = true;
+	video.loop = true;
+	video.playsInline = true;
+	if (item.alt) video.setAttribute('aria-label', item.alt);
+	if (item.type === 'gif') {
+		video.autoplay = true;
+	} else if (inLightbox) {
+		video.controls = true;
+		video.autoplay = true;
+	} else {
+		// show the first frame rather than a black box
+		video.preload = 'metadata';
+	}
+	return video;
+}
+
+/**
+ * Full size view of a tweet's media, left and right arrow keys step through them
+ */
+export class MediaLightbox extends Modal {
+	constructor(app: App, private media: TweetMedia[], private index: number) {
+		super(app);
+	}
+
+	onOpen() {
+		this.modalEl.addClass('tweet-lightbox');
+		this.scope.register([], 'ArrowLeft', () => { this.show(this.index - 1); return false; });
+		this.scope.register([], 'ArrowRight', () => { this.show(this.index + 1); return false; });
+		this.show(this.index);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private show(index: number) {
+		if (index < 0 || index >= this.media.length) return;
+		this.index = index;
+
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const item = this.media[index];
+		const stage = contentEl.createDiv({ cls: 'tweet-lightbox-stage' });
+		stage.appendChild(renderMediaElement(item, true));
+
+		if (item.alt) {
+			contentEl.createDiv({ cls: 'tweet-lightbox-alt', text: item.alt });
+		}
+
+		if (this.media.length > 1) {
+			const nav = contentEl.createDiv({ cls: 'tweet-lightbox-nav' });
+			const previous = nav.createEl('button', { text: '←' });
+			previous.disabled = index === 0;
+			previous.addEventListener('click', () => this.show(this.index - 1));
+			nav.createSpan({ text: `${index + 1} / ${this.media.length}` });
+			const next = nav.createEl('button', { text: '→' });
+			next.disabled = index === this.media.length - 1;
+			next.addEventListener('click', () => this.show(this.index + 1));
+		}
+	}
+}
@@ -0,0 +1,141 @@
+import { App, Platform, TFile, TFolder, Vault, normalizePath } from 'obsidian';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface MediaSettings {
+	dataPath: string;
+	metadataPath: string;
+	// hot-link pbs.twimg.com / video.twimg.com when there's no local copy
+	allowRemoteMedia: boolean;
+	// copy local media into the vault so the diary doesn't need the archive
+	importMedia: boolean;
+}
+
+/**
+ * Maps the media URLs in a tweet to the copies in the archive's tweets_media folder.
+ *
+ * The export saves every file as `<tweetId>-<name>` where `<name>` is the last
+ * path segment of the original URL.
+ */
+export class MediaResolver {
+	private mediaDir = '';
+	private localFiles: Set<string> | null = null;
+	// imports in flight, so two renders don't copy the same file at once
+	private imports = new Map<string, Promise<void>>();
+
+	constructor(private app: App, private getSettings: () => MediaSettings) {}
+
+	/**
+	 * Returns a URL the card can load, or null if the media should be left out
+	 */
+	async resolve(tweetId: string, remoteUrl: string): Promise<string | null> {
+		const settings = this.getSettings();
+		const name = localName(tweetId, remoteUrl);
+
+		if (!settings.importMedia) {
+			const file = await this.localFile(name, remoteUrl);
+			if (file) return toResourceUrl(file);
+		}
+
+		// also finds earlier imports, the archive may not be around anymore
+		const imported = await this.importPath(tweetId, remoteUrl, settings.importMedia);
+		if (imported) {
+			return this.app.vault.adapter.getResourcePath(imported);
+		}
+
+		return settings.allowRemoteMedia ? remoteUrl : null;
+	}
+
+	/**
+	 * Vault path of the media's copy under the metadata folder, copying it
+	 * over from the archive first unless `importing` is off
+	 */
+	async importPath(tweetId: string, remoteUrl: string, importing = true): Promise<string | null> {
+		const name = localName(tweetId, remoteUrl);
+		const target = this.vaultPath(name);
+
+		if (this.app.vault.getAbstractFileByPath(target) instanceof TFile) return target;
+		const file = importing ? await this.localFile(name, remoteUrl) : null;
+		if (!file) return null;
+
+		if (!this.imports.has(name)) {
+			this.imports.set(name, this.importIntoVault(file, target));
+		}
+		try {
+			await this.imports.get(name);
+		} finally {
+			this.imports.delete(name);
+		}
+		return target;
+	}
+
+	/**
+	 * Forgets the tweets_media listing, e.g. after the archive moved
+	 */
+	invalidate() {
+		this.localFiles = null;
+	}
+
+	/**
+	 * The file to show, null when there's no local copy. Mastodon exports
+	 * come with their media, so those URLs are already file paths
+	 */
+	private async localFile(name: string, remoteUrl: string): Promise<string | null> {
+		if (path.isAbsolute(remoteUrl)) return remoteUrl;
+		return await this.hasLocal(name) ? path.join(this.mediaDir, name) : null;
+	}
+
+	private async hasLocal(name: string): Promise<boolean> {
+		const mediaDir = path.join(this.getSettings().dataPath, 'tweets_media');
+		if (!this.localFiles || mediaDir !== this.mediaDir) {
+			this.mediaDir = mediaDir;
+			try {
+				this.localFiles = new Set(await fs.readdir(mediaDir));
+			} catch (e) {
+				// no media folder in this export
+				this.localFiles = new Set();
+			}
+		}
+		return this.localFiles.has(name);
+	}
+
+	private vaultPath(name: string): string {
+		return normalizePath(`${this.getSettings().metadataPath}/media/${name}`);
+	}
+
+	private async importIntoVault(file: string, target: string): Promise<void> {
+		const vault = this.app.vault;
+		await ensureFolder(vault, path.posix.dirname(target));
+		const data = await fs.readFile(file);
+		await vault.createBinary(target, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+	}
+}
+
+/**
+ * Creates `folder` unless it's there. Renders running side by side can all
+ * find it missing, only the first one's createFolder succeeds
+ */
+export async function ensureFolder(vault: Vault, folder: string): Promise<void> {
+	if (vault.getAbstractFileByPath(folder) instanceof TFolder) return;
+	try {
+		await vault.createFolder(folder);
+	} catch (error) {
+		if (!(vault.getAbstractFileByPath(folder) instanceof TFolder)) throw error;
+	}
+}
+
+/**
+ * `https://pbs.twimg.com/media/Abc.jpg` on tweet 123 is saved as `123-Abc.jpg`
+ */
+export function localName(tweetId: string, remoteUrl: string): string {
+	const pathname = remoteUrl.replace(/\\/g, '/').split(/[?#]/)[0];
+	// other networks' IDs look like mastodon:123, which Windows won't take
+	return `${tweetId.replace(/:/g, '-')}-${pathname.substring(pathname.lastIndexOf('/') + 1)}`;
+}
+
+/**
+ * A URL the app can load a file outside the vault from
+ */
+export function toResourceUrl(file: string): string {
+	return Platform.resourcePathPrefix + encodeURI(file.replace(/\\/g, '/').replace(/^\//, ''));
+}
@@ -0,0 +1,344 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ArchiveTweet, SourceContents, SourceStamp, TweetSource } from './archive';
+import { CidLink, readCar } from './car';
+import { AccountSnapshot } from './account';
+import { Tweet } from './tweet';
+
+/**
+ * Reads a Mastodon export ("Request your archive"): the posts in outbox.json,
+ * who posted them from actor.json and media from media_attachments
+ */
+export class MastodonSource implements TweetSource {
+	constructor(private getFolder: () => string) {}
+
+	async stamp(): Promise<SourceStamp[]> {
+		const folder = this.getFolder();
+		if (!folder) return [];
+
+		const stamps: SourceStamp[] = [];
+		for (const name of ['outbox.json', 'actor.json']) {
+			const file = path.join(folder, name);
+			try {
+				const stat = await fs.stat(file);
+				stamps.push({ file, kind: 'tweets', mtime: stat.mtimeMs, size: stat.size });
+			} catch (error) {
+				if (name === 'outbox.json') {
+					// the other sources still work without it
+					console.warn(`No outbox.json in ${folder}, check the Mastodon Archive setting`);
+					return [];
+				}
+			}
+		}
+		return stamps;
+	}
+
+	async read(stamps: SourceStamp[]): Promise<SourceContents> {
+		if (stamps.length === 0) return { tweets: [] };
+		const folder = path.dirname(stamps[0].file);
+
+		let actor: any = {};
+		try {
+			actor = JSON.parse(await fs.readFile(path.join(folder, 'actor.json'), 'utf8'));
+		} catch (error) {
+			// posts still show, just without a name
+		}
+		const outbox = JSON.parse(await fs.readFile(path.join(folder, 'outbox.json'), 'utf8'));
+		return { tweets: parseOutbox(outbox, actor, folder) };
+	}
+}
+
+/**
+ * Turns an ActivityPub outbox into tweets in the archive's shape. Only posts,
+ * boosts only have the link to what was boosted
+ */
+export function parseOutbox(outbox: any, actor: any, folder: string): ArchiveTweet[] {
+	const actorId = String(actor.id || '');
+	const host = hostOf(actorId || String(actor.url || ''));
+	const author: AccountSnapshot = {
+		username: actor.name || actor.preferredUsername || '',
+		handle: actor.preferredUsername ? `${actor.preferredUsername}${host ? '@' + host : ''}` : '',
+		avatar: localOrRemote(actor.icon && actor.icon.url, folder),
+	};
+
+	const tweets: ArchiveTweet[] = [];
+	for (const activity of outbox.orderedItems || []) {
+		const post = activity && activity.object;
+		if (!activity || activity.type !== 'Create' || !post || typeof post !== 'object' || !post.id) continue;
+		const published = post.published || activity.published;
+		if (!published) continue;
+
+		const { text, urls } = htmlToText(post.content || '');
+		const fullText = post.summary ? `CW: ${escapeText(post.summary)}\n\n${text}` : text;
+
+		let replyId: string | undefined;
+		let replyHandle: string | undefined;
+		if (post.inReplyTo) {
+			replyId = `mastodon:${lastSegment(post.inReplyTo)}`;
+			replyHandle = actorId && post.inReplyTo.startsWith(actorId) ? author.handle : handleFromUrl(post.inReplyTo);
+		}
+
+		tweets.push({
+			id: `mastodon:${lastSegment(post.id)}`,
+			id_str: `mastodon:${lastSegment(post.id)}`,
+			full_text: fullText,
+			created_at: published,
+			favorite_count: '0',
+			retweet_count: '0',
+			in_reply_to_status_id_str: replyId,
+			in_reply_to_screen_name: replyHandle,
+			entities: { urls },
+			extended_entities: {
+				media: (post.attachment || []).map((item: any) => ({
+					type: /^video\//.test(item.mediaType || '') ? 'video' : 'photo',
+					url: item.url,
+					media_url_https: localOrRemote(item.url, folder),
+					ext_alt_text: item.name || undefined,
+					original_info: { width: item.width || 0, height: item.height || 0 },
+					video_info: { variants: [{ content_type: 'video/mp4', url: localOrRemote(item.url, folder), bitrate: '0' }] },
+				})),
+			},
+			network: 'mastodon',
+			permalink: post.url || post.id,
+			author,
+		});
+	}
+	return tweets;
+}
+
+/**
+ * Reads a Bluesky repo, either the .car from "Export my data" or JSON with
+ * a `records` list of `{ uri, value }` like listRecords returns
+ */
+export class BlueskySource implements TweetSource {
+	constructor(private getFile: () => string) {}
+
+	async stamp(): Promise<SourceStamp[]> {
+		const file = this.getFile();
+		if (!file) return [];
+		try {
+			const stat = await fs.stat(file);
+			return [{ file, kind: 'tweets', mtime: stat.mtimeMs, size: stat.size }];
+		} catch (error) {
+			console.warn(`Can't open the Bluesky export ${file}:`, error);
+			return [];
+		}
+	}
+
+	async read(stamps: SourceStamp[]): Promise<SourceContents> {
+		if (stamps.length === 0) return { tweets: [] };
+		const file = stamps[0].file;
+		const records = /\.car$/i.test(file)
+			? carRecords(await fs.readFile(file))
+			: jsonRecords(JSON.parse(await fs.readFile(file, 'utf8')));
+		return { tweets: blueskyPosts(records) };
+	}
+}
+
+/**
+ * A record from a Bluesky repo, e.g. collection "app.bsky.feed.post"
+ */
+export interface RepoRecord {
+	did: string;
+	collection: string;
+	rkey: string;
+	value: any;
+}
+
+/**
+ * The records in a repo .car. Records only have their CID in the file, the
+ * collection and key come from the tree of MST nodes that point at them
+ */
+export function carRecords(data: Uint8Array): RepoRecord[] {
+	const car = readCar(data);
+	const commit = car.roots.length > 0 ? car.blocks.get(car.roots[0].key) : null;
+	const did = (commit && commit.did) || '';
+
+	const records: RepoRecord[] = [];
+	car.blocks.forEach(node => {
+		// MST nodes: entries whose keys share a prefix with the one before
+		if (!node || !Array.isArray(node.e) || !('l' in node)) return;
+		let previous = '';
+		for (const entry of node.e) {
+			const key = previous.slice(0, entry.p || 0) + new TextDecoder().decode(entry.k);
+			previous = key;
+			const value = entry.v instanceof CidLink ? car.blocks.get(entry.v.key) : null;
+			const [collection, rkey] = key.split('/');
+			if (value) records.push({ did, collection, rkey, value });
+		}
+	});
+	return records;
+}
+
+/**
+ * Records from JSON, keyed by their at:// URI
+ */
+export function jsonRecords(json: any): RepoRecord[] {
+	const items: any[] = Array.isArray(json) ? json : (json && json.records) || [];
+	const records: RepoRecord[] = [];
+	for (const item of items) {
+		const match = /^at:\/\/([^/]+)\/([^/]+)\/([^/]+)$/.exec((item && item.uri) || '');
+		if (match && item.value) records.push({ did: match[1], collection: match[2], rkey: match[3], value: item.value });
+	}
+	return records;
+}
+
+/**
+ * Posts from repo records as tweets in the archive's shape. Reposts and
+ * likes are left out, and images are linked from Bluesky's CDN since
+ * exports don't include them. The repo only knows the DID, see withBlueskyHandle
+ */
+export function blueskyPosts(records: RepoRecord[]): ArchiveTweet[] {
+	const profileRecord = records.find(record => record.collection === 'app.bsky.actor.profile');
+	const did = (profileRecord && profileRecord.did) || (records.length > 0 ? records[0].did : '');
+	const profile = (profileRecord && profileRecord.value) || {};
+	const avatar = blobCid(profile.avatar);
+	const author: AccountSnapshot = {
+		username: profile.displayName || did,
+		handle: did,
+		avatar: avatar ? `https://cdn.bsky.app/img/avatar/plain/${did}/${avatar}@jpeg` : '',
+	};
+
+	const tweets: ArchiveTweet[] = [];
+	for (const record of records) {
+		const post = record.value;
+		if (record.collection !== 'app.bsky.feed.post' || !post || !post.createdAt) continue;
+
+		let text = escapeText(post.text || '');
+		const urls: { url: string, expanded_url: string }[] = [];
+		for (const facet of post.facets || []) {
+			for (const feature of facet.features || []) {
+				if (feature.$type === 'app.bsky.richtext.facet#link' && feature.uri) {
+					urls.push({ url: sliceBytes(post.text || '', facet.index), expanded_url: feature.uri });
+				}
+			}
+		}
+
+		const embed = post.embed || {};
+		const link = (url: string) => {
+			if (post.text && post.text.indexOf(url) !== -1) return;
+			text += `\n${url}`;
+			urls.push({ url, expanded_url: url });
+		};
+		if (embed.external && embed.external.uri) link(embed.external.uri);
+		const quoted = embed.record && (embed.record.record || embed.record);
+		if (quoted && quoted.uri) link(postUrl(quoted.uri));
+
+		const images = (embed.images || (embed.media && embed.media.images) || []) as any[];
+		let reply: { id: string, handle: string } | undefined;
+		if (post.reply && post.reply.parent && post.reply.parent.uri) {
+			const parent = /^at:\/\/([^/]+)\/[^/]+\/([^/]+)$/.exec(post.reply.parent.uri);
+			if (parent) reply = { id: `bluesky:${parent[2]}`, handle: parent[1] === did ? author.handle : '' };
+		}
+
+		tweets.push({
+			id: `bluesky:${record.rkey}`,
+			id_str: `bluesky:${record.rkey}`,
+			full_text: text,
+			created_at: post.createdAt,
+			favorite_count: '0',
+			retweet_count: '0',
+			in_reply_to_status_id_str: reply && reply.id,
+			in_reply_to_screen_name: reply && reply.handle,
+			entities: { urls },
+			extended_entities: {
+				media: images.filter(image => blobCid(image.image)).map(image => {
+					const url = `https://cdn.bsky.app/img/feed_fullsize/plain/${did}/${blobCid(image.image)}@jpeg`;
+					return {
+						type: 'photo',
+						url,
+						media_url_https: url,
+						ext_alt_text: image.alt || undefined,
+						original_info: image.aspectRatio || {},
+					};
+				}),
+			},
+			network: 'bluesky',
+			permalink: `https://bsky.app/profile/${record.did}/post/${record.rkey}`,
+			author,
+		});
+	}
+	return tweets;
+}
+
+// blob refs are links in a .car and { $link } in JSON, older posts have a bare cid
+function blobCid(blob: any): string {
+	if (!blob) return '';
+	if (blob.ref instanceof CidLink) return blob.ref.toString();
+	if (blob.ref && blob.ref.$link) return blob.ref.$link;
+	return blob.cid || '';
+}
+
+function postUrl(uri: string): string {
+	const match = /^at:\/\/([^/]+)\/[^/]+\/([^/]+)$/.exec(uri);
+	return match ? `https://bsky.app/profile/${match[1]}/post/${match[2]}` : uri;
+}
+
+// facet positions count UTF-8 bytes
+function sliceBytes(text: string, index: { byteStart: number, byteEnd: number }): string {
+	const bytes = new TextEncoder().encode(text);
+	return new TextDecoder().decode(bytes.slice(index.byteStart, index.byteEnd));
+}
+
+/**
+ * Mastodon's HTML as the archive's plain text, still with entities like
+ * tweets.js has them. Links other than mentions and hashtags become url entities
+ */
+function htmlToText(html: string): { text: string, urls: { url: string, expanded_url: string }[] } {
+	const urls: { url: string, expanded_url: string }[] = [];
+	const anchor = /<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/g;
+	let match: RegExpExecArray | null;
+	while ((match = anchor.exec(html))) {
+		if (/class="[^"]*\b(mention|hashtag)\b/.test(match[0])) continue;
+		// long links are split into spans, the text of all of them is the whole URL
+		const shown = match[2].replace(/<[^>]+>/g, '').replace(/&amp;/g, '&');
+		urls.push({ url: shown, expanded_url: match[1].replace(/&amp;/g, '&') });
+	}
+
+	const text = html
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<\/p>\s*<p[^>]*>/gi, '\n\n')
+		.replace(/<[^>]+>/g, '')
+		.trim();
+	return { text, urls };
+}
+
+function escapeText(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function localOrRemote(url: string | undefined, folder: string): string {
+	if (!url) return '';
+	return /^https?:\/\//.test(url) ? url : path.join(folder, url);
+}
+
+function lastSegment(url: string): string {
+	return String(url).replace(/\/+$/, '').split('/').pop() || String(url);
+}
+
+function hostOf(url: string): string {
+	const match = /^https?:\/\/([^/]+)/.exec(url);
+	return match ? match[1] : '';
+}
+
+// https://host/users/name/statuses/1 or https://host/@name/1
+function handleFromUrl(url: string): string {
+	const match = /^https?:\/\/([^/]+)\/(?:users\/|@)([^/]+)/.exec(url);
+	return match ? `${match[2]}@${match[1]}` : '';
+}
+
+/**
+ * Shows a Bluesky post under the handle from the settings instead of the
+ * DID. Done when showing posts, so changing the handle doesn't need a rebuild
+ */
+export function withBlueskyHandle(tweet: Tweet, handle: string): Tweet {
+	if (tweet.network !== 'bluesky' || !handle || !tweet.author) return tweet;
+	const did = tweet.author.handle;
+	tweet.url = tweet.url.replace(`/profile/${did}/`, `/profile/${handle}/`);
+	tweet.author = Object.assign({}, tweet.author, {
+		handle,
+		username: tweet.author.username === did ? handle : tweet.author.username,
+	});
+	if (tweet.replyTo && tweet.replyTo.handle === did) tweet.replyTo.handle = handle;
+	return tweet;
+}
@@ -0,0 +1,197 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+
+export type NotePeriod = 'day' | 'week' | 'month';
+
+// where the note formats come from
+export type NoteFormatSource = 'plugin' | 'daily-notes' | 'periodic-notes';
+
+export interface NoteSettings {
+	diaryPath: string;
+	noteFormatSource: NoteFormatSource;
+	// moment formats, relative to diaryPath. Weekly and monthly are off when empty
+	noteFormat: string;
+	weeklyNoteFormat: string;
+	monthlyNoteFormat: string;
+}
+
+/**
+ * A diary note and the days (YYYY-MM-DD, inclusive) it covers
+ */
+export interface PeriodNote {
+	period: NotePeriod;
+	from: string;
+	to: string;
+}
+
+interface NoteFormat {
+	period: NotePeriod;
+	folder: string;
+	format: string;
+}
+
+const DAY_FORMAT = 'YYYY-MM-DD';
+
+// what Daily Notes and Periodic Notes fall back to when their format is empty
+const DEFAULT_FORMATS: Record<NotePeriod, string> = {
+	day: 'YYYY-MM-DD',
+	week: 'gggg-[W]ww',
+	month: 'YYYY-MM',
+};
+
+/**
+ * Recognizes diary notes by moment formats like `YYYY/MM-MMMM/YYYY-MM-DD dddd`,
+ * either the plugin's own or those of the Daily Notes or Periodic Notes plugin
+ */
+export class DiaryNotes {
+	constructor(private app: App, private getSettings: () => NoteSettings) {}
+
+	/**
+	 * What period the note at `filePath` is for, null when it isn't a diary note
+	 */
+	parse(filePath: string): PeriodNote | null {
+		if (!filePath.endsWith('.md')) return null;
+
+		for (const { period, folder, format } of this.formats()) {
+			const prefix = folder ? `${folder}/` : '';
+			if (!filePath.startsWith(prefix)) continue;
+
+			const relative = filePath.slice(prefix.length, -'.md'.length);
+			// formats without folders match in any subfolder, like the old YYYY/ ones
+			const name = format.indexOf('/') === -1 ? relative.split('/').pop()! : relative;
+			const date = moment(name, format, true);
+			if (date.isValid()) return periodOf(period, format, date);
+		}
+		return null;
+	}
+
+	/**
+	 * Where the note for `day` goes when it doesn't exist yet
+	 */
+	dayPath(day: string): string {
+		const { folder, format } = this.formats()[0];
+		const name = moment(day, DAY_FORMAT).format(format);
+		return normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+	}
+
+	/**
+	 * Daily notes in the vault by day
+	 */
+	dailyNotes(): Map<string, TFile> {
+		const notes = new Map<string, TFile>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const note = this.parse(file.path);
+			if (note && note.period === 'day') notes.set(note.from, file);
+		}
+		return notes;
+	}
+
+	/**
+	 * The formats in effect, daily first. Falls back to the plugin's own when
+	 * the other plugin isn't enabled
+	 */
+	private formats(): NoteFormat[] {
+		const settings = this.getSettings();
+		const own: NoteFormat[] = [
+			{ period: 'day', folder: settings.diaryPath, format: settings.noteFormat },
+			{ period: 'week', folder: settings.diaryPath, format: settings.weeklyNoteFormat },
+			{ period: 'month', folder: settings.diaryPath, format: settings.monthlyNoteFormat },
+		];
+
+		let formats = own;
+		if (settings.noteFormatSource === 'daily-notes') {
+			const options = dailyNotesOptions(this.app);
+			if (options) {
+				formats = [{ period: 'day', folder: options.folder, format: options.format } as NoteFormat].concat(own.slice(1));
+			}
+		} else if (settings.noteFormatSource === 'periodic-notes') {
+			const periodic = periodicNotesSettings(this.app);
+			if (periodic) {
+				formats = [
+					// new notes still need somewhere to go with Periodic Notes' daily notes off
+					periodic.daily.format ? { period: 'day', folder: periodic.daily.folder, format: periodic.daily.format } : own[0],
+					{ period: 'week', folder: periodic.weekly.folder, format: periodic.weekly.format },
+					{ period: 'month', folder: periodic.monthly.folder, format: periodic.monthly.format },
+				];
+			}
+		}
+
+		return formats
+			.map(({ period, folder, format }, index) => ({
+				period,
+				folder: normalizeFolder(folder),
+				// a daily format is always needed, it's where new notes go
+				format: (format || '').trim() || (index === 0 ? DEFAULT_FORMATS.day : ''),
+			}))
+			.filter(format => format.format);
+	}
+}
+
+/**
+ * Problem with a note format, empty when it looks fine. A format has to
+ * name a note for every day, week or month, or notes can't be told apart
+ */
+export function validateNoteFormat(format: string, period: NotePeriod): string {
+	if (!format.trim()) return period === 'day' ? 'Set a format, e.g. YYYY-MM-DD' : '';
+	if (/\.md$/i.test(format)) return 'Leave off the .md';
+
+	const today = moment();
+	const name = today.format(format);
+	const parsed = moment(name, format, true);
+	if (!parsed.isValid() || periodOf(period, format, parsed).from !== periodOf(period, format, today).from) {
+		return `Doesn't identify the ${period}, today would be ${name}`;
+	}
+	return '';
+}
+
+/**
+ * The core Daily Notes plugin's folder and format, null when it's off
+ */
+function dailyNotesOptions(app: App): { folder: string, format: string } | null {
+	const plugin = (app as any).internalPlugins?.getPluginById?.('daily-notes');
+	if (!plugin || !plugin.enabled) return null;
+	const options = (plugin.instance && plugin.instance.options) || {};
+	return { folder: options.folder || '', format: options.format || DEFAULT_FORMATS.day };
+}
+
+type PeriodicSettings = Record<'daily' | 'weekly' | 'monthly', { folder: string, format: string }>;
+
+/**
+ * The Periodic Notes plugin's folders and formats, null when it isn't installed.
+ * Periods it has turned off get an empty format
+ */
+function periodicNotesSettings(app: App): PeriodicSettings | null {
+	const plugin = (app as any).plugins?.getPlugin?.('periodic-notes');
+	if (!plugin || !plugin.settings) return null;
+
+	const read = (key: keyof PeriodicSettings, period: NotePeriod) => {
+		const config = plugin.settings[key];
+		if (!config || !config.enabled) return { folder: '', format: '' };
+		return { folder: config.folder || '', format: config.format || DEFAULT_FORMATS[period] };
+	};
+	return {
+		daily: read('daily', 'day'),
+		weekly: read('weekly', 'week'),
+		monthly: read('monthly', 'month'),
+	};
+}
+
+function normalizeFolder(folder: string): string {
+	const normalized = normalizePath(folder || '/');
+	return normalized === '/' ? '' : normalized;
+}
+
+function periodOf(period: NotePeriod, format: string, date: ReturnType<typeof moment>): PeriodNote {
+	if (period === 'day') {
+		const day = date.format(DAY_FORMAT);
+		return { period, from: day, to: day };
+	}
+
+	// W and G are ISO weeks, w and g the locale's
+	const unit = period === 'month' ? 'month'
+		: /[WG]/.test(format.replace(/\[[^\]]*\]/g, '')) ? 'isoWeek' : 'week';
+	return {
+		period,
+		from: date.clone().startOf(unit).format(DAY_FORMAT),
+		to: date.clone().endOf(unit).format(DAY_FORMAT),
+	};
+}
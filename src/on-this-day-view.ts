@@ -0,0 +1,56 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import type TwitterDiaryPlugin from '../main';
+
+export const VIEW_TYPE_ON_THIS_DAY = 'twitter-diary-on-this-day';
+
+/**
+ * Sidebar listing tweets from the same day in earlier years. Follows the
+ * open diary note, or today when something else is open
+ */
+export class OnThisDayView extends ItemView {
+	private day = '';
+	private renders = 0;
+
+	constructor(leaf: WorkspaceLeaf, private plugin: TwitterDiaryPlugin) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_ON_THIS_DAY;
+	}
+
+	getDisplayText(): string {
+		return 'On this day';
+	}
+
+	getIcon(): string {
+		return 'history';
+	}
+
+	async onOpen() {
+		this.registerEvent(this.app.workspace.on('file-open', () => this.refresh()));
+		await this.refresh();
+	}
+
+	async refresh(force = false) {
+		const file = this.app.workspace.getActiveFile();
+		const day = (file && this.plugin.isDailyLogNote(file.path) && this.plugin.noteDay(file.path)) || this.plugin.today();
+		if (day === this.day && !force) return;
+		this.day = day;
+
+		// drawn aside and swapped in, so a slow refresh can't draw over a newer one
+		const render = ++this.renders;
+		const element = document.createElement('div');
+		try {
+			await this.plugin.renderOnThisDay(element, day);
+		} catch (error) {
+			this.plugin.renderBlockError(element, error.message);
+			console.error('Error rendering on this day:', error);
+		}
+		if (render !== this.renders) return;
+
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.appendChild(element);
+	}
+}
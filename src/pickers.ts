@@ -0,0 +1,81 @@
+import { AbstractInputSuggest, App, TFolder } from 'obsidian';
+
+/**
+ * Suggests vault folders while typing into a settings text field
+ */
+export class FolderSuggest extends AbstractInputSuggest<TFolder> {
+	constructor(app: App, private inputEl: HTMLInputElement) {
+		super(app, inputEl);
+	}
+
+	getSuggestions(query: string): TFolder[] {
+		const lowerQuery = query.toLowerCase();
+		return this.app.vault.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder && !file.isRoot())
+			.filter(folder => folder.path.toLowerCase().includes(lowerQuery))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	renderSuggestion(folder: TFolder, el: HTMLElement) {
+		el.setText(folder.path);
+	}
+
+	selectSuggestion(folder: TFolder) {
+		this.setValue(folder.path);
+		// the setting only hears about typing
+		this.inputEl.dispatchEvent(new Event('input'));
+		this.close();
+	}
+}
+
+// electron's dialogs, newer Obsidian versions and mobile don't have them
+function dialog(): any {
+	let remote: any;
+	try {
+		remote = require('electron').remote;
+	} catch (error) {
+		// no electron at all
+	}
+	if (!remote || !remote.dialog) {
+		throw new Error('the system file picker isn\'t available, type the path instead');
+	}
+	return remote.dialog;
+}
+
+/**
+ * Asks for a folder with the system's folder picker, null when cancelled.
+ * Throws when there's no picker to show
+ */
+export async function pickDirectory(title: string, defaultPath: string): Promise<string | null> {
+	const result = await dialog().showOpenDialog({
+		title,
+		defaultPath: defaultPath || undefined,
+		properties: ['openDirectory'],
+	});
+	return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+}
+
+/**
+ * Asks where to save a file with the system's save dialog, null when cancelled
+ */
+export async function pickSaveFile(title: string, defaultPath: string, extension: string): Promise<string | null> {
+	const result = await dialog().showSaveDialog({
+		title,
+		defaultPath,
+		filters: [{ name: extension.toUpperCase(), extensions: [extension] }],
+	});
+	return result.canceled || !result.filePath ? null : result.filePath;
+}
+
+/**
+ * Asks for a file with the system's file picker, null when cancelled
+ */
+export async function pickFile(title: string, defaultPath: string, extensions: string[]): Promise<string | null> {
+	const result = await dialog().showOpenDialog({
+		title,
+		defaultPath: defaultPath || undefined,
+		filters: [{ name: extensions.map(extension => extension.toUpperCase()).join(', '), extensions }],
+		properties: ['openFile'],
+	});
+	return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+}
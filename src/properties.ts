@@ -0,0 +1,65 @@
+import { Tweet } from './tweet';
+
+/**
+ * Per-day frontmatter properties, so Dataview and friends can query tweets
+ */
+export interface TweetProperties {
+	tweet_count: number;
+	tweet_ids: string[];
+	tweet_likes_total: number;
+	// link to the most liked tweet of the day
+	top_tweet: string;
+	// lowercase, without the #
+	hashtags: string[];
+}
+
+export const PROPERTY_KEYS: (keyof TweetProperties)[] = ['tweet_count', 'tweet_ids', 'tweet_likes_total', 'top_tweet', 'hashtags'];
+
+/**
+ * Properties for a day's tweets, null when there are none
+ */
+export function tweetProperties(tweets: Tweet[], permalink: (tweet: Tweet) => string): TweetProperties | null {
+	if (tweets.length === 0) return null;
+
+	// thread parts are separate tweets as far as anyone querying is concerned
+	const all: Tweet[] = [];
+	tweets.forEach(tweet => all.push(tweet, ...tweet.thread));
+
+	const hashtags: string[] = [];
+	let top = all[0];
+	for (const tweet of all) {
+		if (tweet.likes > top.likes) top = tweet;
+		for (const token of tweet.tokens) {
+			const tag = token.type === 'hashtag' && token.text.toLowerCase();
+			if (tag && hashtags.indexOf(tag) === -1) hashtags.push(tag);
+		}
+	}
+
+	return {
+		tweet_count: all.length,
+		tweet_ids: all.map(tweet => tweet.id),
+		tweet_likes_total: all.reduce((total, tweet) => total + tweet.likes, 0),
+		top_tweet: permalink(top),
+		hashtags,
+	};
+}
+
+/**
+ * Writes `properties` into a parsed frontmatter object, or removes ours when
+ * null. Returns whether anything changed
+ */
+export function applyProperties(frontmatter: any, properties: TweetProperties | null): boolean {
+	let changed = false;
+	for (const key of PROPERTY_KEYS) {
+		if (!properties) {
+			if (key in frontmatter) {
+				delete frontmatter[key];
+				changed = true;
+			}
+		} else if (JSON.stringify(frontmatter[key]) !== JSON.stringify(properties[key])) {
+			frontmatter[key] = properties[key];
+			changed = true;
+		}
+	}
+	return changed;
+}
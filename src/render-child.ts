@@ -0,0 +1,48 @@
+import { Component, MarkdownRenderChild } from 'obsidian';
+
+/**
+ * Owns what a twitter-diary block or a legacy << >> note renders, so it can be
+ * drawn again when the settings or the archive change and is removed when the
+ * note or the plugin goes away.
+ *
+ * Each render draws into a fresh element and only swaps it in once it's done,
+ * so overlapping renders never leave tweets in there twice.
+ */
+export class DiaryRenderChild extends MarkdownRenderChild {
+	private renders = 0;
+
+	constructor(
+		containerEl: HTMLElement,
+		private draw: (element: HTMLElement, component: Component) => Promise<void>,
+		private active: Set<DiaryRenderChild>,
+	) {
+		super(containerEl);
+	}
+
+	onload() {
+		this.active.add(this);
+		this.render();
+	}
+
+	onunload() {
+		this.active.delete(this);
+		this.containerEl.empty();
+	}
+
+	async render() {
+		const render = ++this.renders;
+		const element = document.createElement('div');
+		element.className = 'twitter-diary';
+
+		try {
+			await this.draw(element, this);
+		} catch (error) {
+			console.error('Error rendering tweets:', error);
+		}
+
+		// a newer render started meanwhile, or the note was closed
+		if (render !== this.renders || !this.active.has(this)) return;
+		this.containerEl.empty();
+		this.containerEl.appendChild(element);
+	}
+}
@@ -0,0 +1,111 @@
+import { App, Modal, Setting, debounce } from 'obsidian';
+import type TwitterDiaryPlugin from '../main';
+import { EMPTY_FILTERS, SearchEntry, SearchFilters, searchTweets } from './search';
+import { TweetKind, toTweet } from './tweet';
+
+// rendering is the slow part, not searching
+const MAX_RESULTS = 100;
+
+/**
+ * Searches the whole archive, picking a result opens that day's diary note
+ */
+export class TweetSearchModal extends Modal {
+	private filters: SearchFilters = Object.assign({}, EMPTY_FILTERS);
+	private entries: SearchEntry[] = [];
+	private resultsEl: HTMLElement;
+
+	constructor(app: App, private plugin: TwitterDiaryPlugin) {
+		super(app);
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText('Search tweets');
+
+		const update = debounce(() => this.renderResults(), 200, true);
+		const text = (name: string, placeholder: string, set: (value: string) => void) =>
+			new Setting(contentEl)
+				.setName(name)
+				.addText(input => input
+					.setPlaceholder(placeholder)
+					.onChange(value => {
+						set(value.trim());
+						update();
+					}));
+
+		text('Text', 'words or links', value => { this.filters.query = value; });
+		text('From', 'YYYY-MM-DD', value => { this.filters.from = value; });
+		text('To', 'YYYY-MM-DD', value => { this.filters.to = value; });
+
+		new Setting(contentEl)
+			.setName('Type')
+			.addDropdown(dropdown => dropdown
+				.addOptions({ '': 'Any', original: 'Original', reply: 'Reply', retweet: 'Retweet', quote: 'Quote' })
+				.onChange(value => {
+					this.filters.kind = value as TweetKind | '';
+					update();
+				}));
+
+		new Setting(contentEl)
+			.setName('Has media')
+			.addToggle(toggle => toggle
+				.onChange(value => {
+					this.filters.hasMedia = value;
+					update();
+				}));
+
+		text('Hashtag', '#tag', value => { this.filters.hashtag = value; });
+		text('Mention', '@handle', value => { this.filters.mention = value; });
+		text('Minimum likes', '0', value => { this.filters.minLikes = parseInt(value) || 0; });
+		text('Minimum retweets', '0', value => { this.filters.minRetweets = parseInt(value) || 0; });
+
+		this.resultsEl = contentEl.createDiv({ cls: 'tweet-search-results' });
+		this.resultsEl.setText('Loading archive…');
+
+		try {
+			this.entries = await this.plugin.searchEntries();
+		} catch (error) {
+			this.resultsEl.setText('Could not read the archive');
+			console.error('Error loading tweets for search:', error);
+			return;
+		}
+		this.renderResults();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private renderResults() {
+		if (!this.resultsEl) return;
+		this.resultsEl.empty();
+
+		const results = searchTweets(this.entries, this.filters, MAX_RESULTS + 1);
+		if (results.length === 0) {
+			this.resultsEl.setText('No tweets found');
+			return;
+		}
+
+		for (const entry of results.slice(0, MAX_RESULTS)) {
+			const tweet = toTweet(entry.raw);
+			// the compact layout's line, so results look like the diary
+			const row = this.resultsEl.createDiv({ cls: 'tweet-search-result' });
+			row.appendChild(this.plugin.renderTweetLine(tweet, 'div'));
+			row.createDiv({
+				cls: 'tweet-search-result-meta',
+				text: `${tweet.likes} likes · ${tweet.retweets} retweets`,
+			});
+
+			row.addEventListener('click', event => {
+				// the timestamp links to the tweet itself
+				if (event.target instanceof Element && event.target.closest('a')) return;
+				this.close();
+				this.plugin.openDailyNote(entry.day);
+			});
+		}
+
+		if (results.length > MAX_RESULTS) {
+			this.resultsEl.createDiv({ text: `Showing the newest ${MAX_RESULTS}, narrow the search to see more` });
+		}
+	}
+}
@@ -0,0 +1,89 @@
+import { ArchiveTweet } from './archive';
+import { TweetKind, tweetKind } from './tweet';
+import { decodeEntities } from './text';
+
+/**
+ * A tweet prepared for searching, everything lowercased up front
+ */
+export interface SearchEntry {
+	raw: ArchiveTweet;
+	day: string;
+	// text plus expanded links
+	haystack: string;
+	kind: TweetKind;
+	hasMedia: boolean;
+	hashtags: string[];
+	mentions: string[];
+	likes: number;
+	retweets: number;
+}
+
+export interface SearchFilters {
+	query: string;
+	from: string;
+	to: string;
+	kind: TweetKind | '';
+	hasMedia: boolean;
+	hashtag: string;
+	mention: string;
+	minLikes: number;
+	minRetweets: number;
+}
+
+export const EMPTY_FILTERS: SearchFilters = {
+	query: '',
+	from: '',
+	to: '',
+	kind: '',
+	hasMedia: false,
+	hashtag: '',
+	mention: '',
+	minLikes: 0,
+	minRetweets: 0,
+};
+
+export function toSearchEntry(raw: ArchiveTweet, day: string): SearchEntry {
+	const entities = raw.entities || {};
+	const urls = (entities.urls || []).map((url: any) => url.expanded_url || '');
+
+	return {
+		raw,
+		day,
+		haystack: [decodeEntities(raw.full_text || '')].concat(urls).join(' ').toLowerCase(),
+		kind: tweetKind(raw),
+		hasMedia: !!(raw.extended_entities && raw.extended_entities.media && raw.extended_entities.media.length),
+		hashtags: (entities.hashtags || []).map((tag: any) => String(tag.text).toLowerCase()),
+		mentions: (entities.user_mentions || []).map((mention: any) => String(mention.screen_name).toLowerCase()),
+		likes: parseInt(raw.favorite_count || '') || 0,
+		retweets: parseInt(raw.retweet_count || '') || 0,
+	};
+}
+
+/**
+ * Entries matching every filter, newest first, at most `limit` of them.
+ *
+ * A plain scan is plenty fast for a few hundred thousand tweets since the
+ * haystacks are built once, so there's no inverted index to keep in sync.
+ */
+export function searchTweets(entries: SearchEntry[], filters: SearchFilters, limit: number): SearchEntry[] {
+	const words = filters.query.toLowerCase().split(/\s+/).filter(word => word);
+	const hashtag = filters.hashtag.replace(/^#/, '').toLowerCase();
+	const mention = filters.mention.replace(/^@/, '').toLowerCase();
+	const results: SearchEntry[] = [];
+
+	// entries are oldest first, walk backwards so we can stop at the limit
+	for (let i = entries.length - 1; i >= 0 && results.length < limit; i--) {
+		const entry = entries[i];
+		if (filters.from && entry.day < filters.from) continue;
+		if (filters.to && entry.day > filters.to) continue;
+		if (filters.kind && entry.kind !== filters.kind) continue;
+		if (filters.hasMedia && !entry.hasMedia) continue;
+		if (hashtag && entry.hashtags.indexOf(hashtag) === -1) continue;
+		if (mention && entry.mentions.indexOf(mention) === -1) continue;
+		if (entry.likes < filters.minLikes || entry.retweets < filters.minRetweets) continue;
+		if (!words.every(word => entry.haystack.includes(word))) continue;
+		results.push(entry);
+	}
+
+	return results;
+}
@@ -0,0 +1,123 @@
+import { Component, ItemView, MarkdownRenderer, Notice, WorkspaceLeaf } from 'obsidian';
+import type TwitterDiaryPlugin from '../main';
+import { SearchEntry } from './search';
+import { computeStats, statsToMarkdown } from './stats';
+
+export const VIEW_TYPE_STATS = 'twitter-diary-stats';
+
+/**
+ * Heatmap of tweets per day for a year plus the usual stats underneath
+ */
+export class StatsView extends ItemView {
+	private year = '';
+	// owns what the last refresh's Markdown loaded, unloaded before the next
+	private rendered: Component | null = null;
+
+	constructor(leaf: WorkspaceLeaf, private plugin: TwitterDiaryPlugin) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_STATS;
+	}
+
+	getDisplayText(): string {
+		return 'Tweet stats';
+	}
+
+	getIcon(): string {
+		return 'bar-chart-2';
+	}
+
+	async onOpen() {
+		await this.refresh();
+	}
+
+	async refresh() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		if (this.rendered) this.removeChild(this.rendered);
+		const rendered = this.rendered = this.addChild(new Component());
+
+		let entries: SearchEntry[];
+		try {
+			entries = await this.plugin.statsEntries();
+		} catch (error) {
+			this.plugin.renderBlockError(container, error.message);
+			console.error('Error loading tweet stats:', error);
+			return;
+		}
+		const years: string[] = [];
+		for (const entry of entries) {
+			const year = entry.day.slice(0, 4);
+			if (years[years.length - 1] !== year) years.push(year);
+		}
+		if (years.length === 0) {
+			container.setText('No tweets found');
+			return;
+		}
+		if (years.indexOf(this.year) === -1) this.year = years[years.length - 1];
+
+		const toolbar = container.createDiv({ cls: 'tweet-stats-toolbar' });
+
+		const index = years.indexOf(this.year);
+		const previous = toolbar.createEl('button', { text: '←' });
+		previous.disabled = index === 0;
+		previous.addEventListener('click', () => { this.year = years[index - 1]; this.refresh(); });
+		toolbar.createEl('strong', { text: this.year });
+		const next = toolbar.createEl('button', { text: '→' });
+		next.disabled = index === years.length - 1;
+		next.addEventListener('click', () => { this.year = years[index + 1]; this.refresh(); });
+
+		const stats = computeStats(entries.filter(entry => entry.day.startsWith(this.year)), this.plugin.timeZone());
+		const markdown = statsToMarkdown(stats, `Tweets in ${this.year}`);
+
+		const copy = toolbar.createEl('button', { text: 'Copy as Markdown' });
+		copy.addEventListener('click', async () => {
+			await navigator.clipboard.writeText(markdown);
+			new Notice('Copied tweet stats');
+		});
+
+		renderHeatmap(container, stats.perDay, this.year, day => this.plugin.openDailyNote(day));
+		await MarkdownRenderer.renderMarkdown(markdown, container.createDiv(), '', rendered);
+	}
+}
+
+/**
+ * A week-per-column calendar of `year`, clicking a day with tweets calls `onClick`
+ */
+export function renderHeatmap(element: HTMLElement, perDay: { [day: string]: number }, year: string, onClick: (day: string) => void) {
+	const grid = document.createElement('div');
+	grid.className = 'tweet-heatmap';
+
+	const start = Date.UTC(Number(year), 0, 1);
+	const end = Date.UTC(Number(year) + 1, 0, 1);
+	let max = 0;
+	for (const day in perDay) {
+		if (day.startsWith(year)) max = Math.max(max, perDay[day]);
+	}
+
+	// pad the first week so rows line up with weekdays
+	for (let i = 0; i < new Date(start).getUTCDay(); i++) {
+		grid.appendChild(document.createElement('div'));
+	}
+
+	for (let time = start; time < end; time += 24 * 60 * 60 * 1000) {
+		const day = new Date(time).toISOString().split('T')[0];
+		const count = perDay[day] || 0;
+		const level = count === 0 ? 0 : Math.min(4, Math.ceil(count / max * 4));
+
+		const cell = document.createElement('div');
+		cell.className = 'tweet-heatmap-day';
+		cell.title = `${day}: ${count} tweet${count === 1 ? '' : 's'}`;
+		// styles.css shades levels 0 (no tweets) to 4 (the busiest days)
+		cell.setAttribute('data-level', String(level));
+		if (count) {
+			cell.classList.add('has-tweets');
+			cell.addEventListener('click', () => onClick(day));
+		}
+		grid.appendChild(cell);
+	}
+
+	element.appendChild(grid);
+}
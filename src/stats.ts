@@ -0,0 +1,108 @@
+import { SearchEntry } from './search';
+import { zonedParts } from './time';
+import { decodeEntities } from './text';
+
+export interface CountedName {
+	name: string;
+	count: number;
+}
+
+export interface TweetStats {
+	total: number;
+	withMedia: number;
+	perDay: { [day: string]: number };
+	// YYYY-MM
+	perMonth: { [month: string]: number };
+	perYear: { [year: string]: number };
+	// index is the hour in the diary's timezone
+	perHour: number[];
+	topHashtags: CountedName[];
+	topMentions: CountedName[];
+	mostLiked: SearchEntry[];
+}
+
+const TOP = 10;
+
+/**
+ * Counts everything the dashboard shows. `entries` should already be
+ * filtered down to the tweets the diary would show
+ */
+export function computeStats(entries: SearchEntry[], timeZone: string): TweetStats {
+	const stats: TweetStats = {
+		total: entries.length,
+		withMedia: 0,
+		perDay: {},
+		perMonth: {},
+		perYear: {},
+		perHour: [],
+		topHashtags: [],
+		topMentions: [],
+		mostLiked: [],
+	};
+	for (let hour = 0; hour < 24; hour++) stats.perHour.push(0);
+
+	const hashtags: { [name: string]: number } = {};
+	const mentions: { [name: string]: number } = {};
+	const increment = (counts: { [key: string]: number }, key: string) => {
+		counts[key] = (counts[key] || 0) + 1;
+	};
+
+	for (const entry of entries) {
+		if (entry.hasMedia) stats.withMedia++;
+		increment(stats.perDay, entry.day);
+		increment(stats.perMonth, entry.day.slice(0, 7));
+		increment(stats.perYear, entry.day.slice(0, 4));
+		stats.perHour[zonedParts(new Date(entry.raw.created_at), timeZone).hour]++;
+		entry.hashtags.forEach(tag => increment(hashtags, tag));
+		entry.mentions.forEach(mention => increment(mentions, mention));
+	}
+
+	stats.topHashtags = top(hashtags);
+	stats.topMentions = top(mentions);
+	stats.mostLiked = entries
+		.filter(entry => entry.kind !== 'retweet')
+		.sort((a, b) => b.likes - a.likes)
+		.slice(0, TOP);
+
+	return stats;
+}
+
+function top(counts: { [name: string]: number }): CountedName[] {
+	return Object.keys(counts)
+		.map(name => ({ name, count: counts[name] }))
+		.sort((a, b) => b.count - a.count || (a.name < b.name ? -1 : 1))
+		.slice(0, TOP);
+}
+
+/**
+ * The stats as Markdown tables, for pasting into a yearly review
+ */
+export function statsToMarkdown(stats: TweetStats, title: string): string {
+	const sections: string[] = [];
+	const table = (headers: string[], rows: (string | number)[][]) =>
+		[`| ${headers.join(' | ')} |`, `| ${headers.map(() => '---').join(' | ')} |`]
+			.concat(rows.map(row => `| ${row.map(cell => String(cell).replace(/\|/g, '\\|').replace(/\n/g, ' ')).join(' | ')} |`))
+			.join('\n');
+
+	const mediaShare = stats.total ? Math.round(stats.withMedia / stats.total * 100) : 0;
+	sections.push(`## ${title}`, `${stats.total} tweets, ${mediaShare}% with media`);
+
+	const years = Object.keys(stats.perYear).sort();
+	if (years.length > 1) {
+		sections.push('### Per year', table(['Year', 'Tweets'], years.map(year => [year, stats.perYear[year]])));
+	}
+
+	const months = Object.keys(stats.perMonth).sort();
+	sections.push('### Per month', table(['Month', 'Tweets'], months.map(month => [month, stats.perMonth[month]])));
+
+	sections.push('### Most liked', table(['Day', 'Likes', 'Tweet'],
+		stats.mostLiked.map(entry => [`[[${entry.day}]]`, entry.likes, decodeEntities(entry.raw.full_text || '')])));
+
+	sections.push('### Top hashtags', table(['Hashtag', 'Tweets'], stats.topHashtags.map(tag => ['\\#' + tag.name, tag.count])));
+	sections.push('### Top mentions', table(['Account', 'Tweets'], stats.topMentions.map(mention => ['@' + mention.name, mention.count])));
+
+	sections.push('### Time of day', table(['Hour', 'Tweets'],
+		stats.perHour.map((count, hour) => [`${hour < 10 ? '0' : ''}${hour}:00`, count])));
+
+	return sections.join('\n\n');
+}
@@ -0,0 +1,191 @@
+import { ArchiveTweet } from './archive';
+
+/**
+ * A piece of tweet text, built from the archive's entities
+ */
+export type TextToken =
+	| { type: 'text', text: string }
+	| { type: 'hashtag', text: string }
+	| { type: 'mention', text: string }
+	| { type: 'symbol', text: string }
+	| { type: 'url', url: string, display: string };
+
+// the parts of an archive tweet its text is made from
+export type TweetText = Pick<ArchiveTweet, 'full_text' | 'display_text_range' | 'entities' | 'extended_entities'>;
+
+export interface TokenizeOptions {
+	// code point to start at, defaults to the start of display_text_range
+	start?: number;
+	// t.co links to leave out, e.g. the link to a quoted tweet
+	skipUrls?: string[];
+}
+
+interface Span {
+	start: number;
+	end: number;
+	// null for links that get dropped (media, skipped urls)
+	token: TextToken | null;
+}
+
+/**
+ * Splits a tweet's text into plain text, hashtags, mentions, cashtags and links.
+ *
+ * The archive's indices count code points, and depending on the tweet they
+ * line up with either the escaped or unescaped text, so every entity is
+ * checked against the text and searched for near its index if it doesn't match.
+ * Media links are dropped since the media is shown separately.
+ */
+export function tokenizeTweet(raw: TweetText, options: TokenizeOptions = {}): TextToken[] {
+	const points = Array.from(decodeEntities(raw.full_text || ''));
+	const entities = raw.entities || {};
+	const skipUrls = options.skipUrls || [];
+	const spans: Span[] = [];
+	const taken: boolean[] = [];
+
+	const place = (indices: any, expected: string, token: TextToken | null, ignoreCase = false) => {
+		const hint = indices ? Number(indices[0]) : 0;
+		const start = locate(points, expected, hint, taken, ignoreCase);
+		if (start === -1) return;
+		const end = start + Array.from(expected).length;
+		for (let i = start; i < end; i++) taken[i] = true;
+		if (token && token.type === 'mention') {
+			// keep the handle's case the way it was typed
+			token.text = points.slice(start + 1, end).join('');
+		}
+		spans.push({ start, end, token });
+	};
+
+	// links first, a link like medium.com/@name/post#part has a mention and a hashtag in it
+	(entities.urls || []).forEach((url: any) => {
+		const expanded = Array.isArray(url.expanded_url) ? url.expanded_url[0] : url.expanded_url;
+		const token: TextToken | null = skipUrls.indexOf(url.url) !== -1
+			? null
+			: { type: 'url', url: expanded || url.url, display: expanded || url.url };
+		place(url.indices, url.url, token);
+	});
+	const media = (raw.extended_entities && raw.extended_entities.media) || entities.media || [];
+	media.forEach((item: any) => place(item.indices, item.url, null));
+	(entities.hashtags || []).forEach((tag: any) =>
+		place(tag.indices, '#' + tag.text, { type: 'hashtag', text: tag.text })
+	);
+	(entities.symbols || []).forEach((symbol: any) =>
+		place(symbol.indices, '$' + symbol.text, { type: 'symbol', text: symbol.text })
+	);
+	(entities.user_mentions || []).forEach((mention: any) =>
+		place(mention.indices, '@' + mention.screen_name, { type: 'mention', text: mention.screen_name }, true)
+	);
+
+	spans.sort((a, b) => a.start - b.start);
+
+	const start = options.start != null ? options.start : displayStart(raw);
+	const tokens: TextToken[] = [];
+	let cursor = start;
+
+	for (const span of spans) {
+		if (span.start < cursor) continue;
+		if (span.start > cursor) {
+			tokens.push({ type: 'text', text: points.slice(cursor, span.start).join('') });
+		}
+		if (span.token) tokens.push(span.token);
+		cursor = span.end;
+	}
+	if (cursor < points.length) {
+		tokens.push({ type: 'text', text: points.slice(cursor).join('') });
+	}
+
+	return trimTokens(tokens);
+}
+
+/**
+ * Where the visible text starts, replies hide the leading @mentions
+ */
+function displayStart(raw: TweetText): number {
+	const range = raw.display_text_range;
+	return range ? Number(range[0]) || 0 : 0;
+}
+
+/**
+ * Finds `expected` in `points`, preferring the spot closest to `hint`
+ */
+function locate(points: string[], expected: string, hint: number, taken: boolean[], ignoreCase: boolean): number {
+	const wanted = Array.from(ignoreCase ? expected.toLowerCase() : expected);
+	const matchesAt = (at: number) => {
+		for (let i = 0; i < wanted.length; i++) {
+			if (taken[at + i]) return false;
+			let point = points[at + i];
+			if (point === undefined) return false;
+			if (ignoreCase) point = point.toLowerCase();
+			// fullwidth # and @ count too
+			if (i === 0 && (point === '＃' || point === '＠')) point = point === '＃' ? '#' : '@';
+			if (point !== wanted[i]) return false;
+		}
+		return true;
+	};
+
+	const furthest = Math.max(hint, points.length);
+	for (let distance = 0; distance <= furthest; distance++) {
+		if (matchesAt(hint - distance)) return hint - distance;
+		if (distance > 0 && matchesAt(hint + distance)) return hint + distance;
+	}
+	return -1;
+}
+
+function trimTokens(tokens: TextToken[]): TextToken[] {
+	const first = tokens[0];
+	if (first && first.type === 'text') first.text = first.text.replace(/^\s+/, '');
+	const last = tokens[tokens.length - 1];
+	if (last && last.type === 'text') last.text = last.text.replace(/\s+$/, '');
+	return tokens.filter(token => token.type !== 'text' || token.text);
+}
+
+const NAMED_ENTITIES: { [name: string]: string } = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: '\'',
+};
+
+/**
+ * Decodes the HTML entities the archive escapes tweet text with (&amp; and friends)
+ */
+export function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+		if (entity[0] === '#') {
+			const code = entity[1] === 'x' || entity[1] === 'X'
+				? parseInt(entity.slice(2), 16)
+				: parseInt(entity.slice(1), 10);
+			return code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : match;
+		}
+		return NAMED_ENTITIES[entity.toLowerCase()] || match;
+	});
+}
+
+/**
+ * The tweet as plain text, with links expanded
+ */
+export function tokensToText(tokens: TextToken[]): string {
+	return tokens.map(token => {
+		switch (token.type) {
+			case 'hashtag': return '#' + token.text;
+			case 'mention': return '@' + token.text;
+			case 'symbol': return '$' + token.text;
+			case 'url': return token.display;
+			default: return token.text;
+		}
+	}).join('');
+}
+
+/**
+ * Fills a link template like "https://x.com/{name}", null if there's no template
+ */
+export function linkTarget(template: string, name: string): string | null {
+	return template ? template.replace(/\{name\}/g, encodeURIComponent(name)) : null;
+}
+
+/**
+ * Only http(s) links are turned into anchors
+ */
+export function isSafeUrl(url: string): boolean {
+	return /^https?:\/\//i.test(url);
+}
@@ -0,0 +1,168 @@
+/**
+ * Wall-clock fields of an instant in some IANA timezone
+ */
+export interface ZonedParts {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+}
+
+const formatters: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+/**
+ * The timezone the machine is set to, e.g. "America/New_York"
+ */
+export function systemTimeZone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Returns `timeZone` if it's a zone Intl knows about, otherwise the system zone
+ */
+export function resolveTimeZone(timeZone: string): string {
+	if (!timeZone) return systemTimeZone();
+	return isValidTimeZone(timeZone) ? timeZone : systemTimeZone();
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return true;
+	} catch (e) {
+		return false;
+	}
+}
+
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+	if (!formatters[timeZone]) {
+		formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			hour12: false,
+		});
+	}
+
+	// "01/31/2024, 13:05"
+	const match = /(\d+)\/(\d+)\/(\d+),?\s+(\d+):(\d+)/.exec(formatters[timeZone].format(date));
+	if (!match) throw new Error(`Could not read date in ${timeZone}`);
+
+	return {
+		year: Number(match[3]),
+		month: Number(match[1]),
+		day: Number(match[2]),
+		// some engines print midnight as 24:00
+		hour: Number(match[4]) % 24,
+		minute: Number(match[5]),
+	};
+}
+
+/**
+ * Parses a "HH:MM" day start into minutes after midnight (0 if unset or invalid)
+ */
+export function parseDayStart(value: string): number {
+	const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+	if (!match) return 0;
+	const minutes = Number(match[1]) * 60 + Number(match[2]);
+	return minutes < 24 * 60 ? minutes : 0;
+}
+
+/**
+ * Whether a "Day Starts At" value means something, empty counts as midnight
+ */
+export function isValidDayStart(value: string): boolean {
+	const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+	return !value.trim() || (!!match && Number(match[1]) < 24 && Number(match[2]) < 60);
+}
+
+/**
+ * Returns the diary day (YYYY-MM-DD) a timestamp belongs to.
+ *
+ * Anything before `dayStart` minutes past midnight counts towards the
+ * previous day, so a 1am tweet can still land on last night's entry.
+ */
+export function toDayKey(timestamp: string | Date, timeZone: string, dayStart = 0): string {
+	const parts = zonedParts(new Date(timestamp), timeZone);
+	// do the cutoff math on the wall clock, not the instant, so DST can't shift it
+	const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+	return new Date(wallClock - dayStart * 60 * 1000).toISOString().split('T')[0];
+}
+
+/**
+ * Formats a tweet timestamp for display, e.g. "Jan 31, 2024, 1:05 PM"
+ */
+export function formatTimestamp(timestamp: string | Date, timeZone: string): string {
+	return new Date(timestamp).toLocaleString('en-US', {
+		timeZone,
+		hour: 'numeric',
+		minute: 'numeric',
+		hour12: true,
+		day: 'numeric',
+		month: 'short',
+		year: 'numeric'
+	});
+}
+
+/**
+ * Just the time of day, e.g. "9:41 AM"
+ */
+export function formatTime(timestamp: string | Date, timeZone: string): string {
+	return new Date(timestamp).toLocaleTimeString('en-US', {
+		timeZone,
+		hour: 'numeric',
+		minute: '2-digit',
+		hour12: true,
+	});
+}
+
+/**
+ * A diary day as a heading, e.g. "Wednesday, January 31, 2024"
+ */
+export function formatDay(day: string): string {
+	return new Date(day).toLocaleDateString('en-US', {
+		timeZone: 'UTC',
+		weekday: 'long',
+		day: 'numeric',
+		month: 'long',
+		year: 'numeric',
+	});
+}
+
+/**
+ * Morning, Afternoon, Evening or Night for the time of a tweet
+ */
+export function partOfDay(timestamp: string | Date, timeZone: string): string {
+	const hour = zonedParts(new Date(timestamp), timeZone).hour;
+	if (hour >= 5 && hour < 12) return 'Morning';
+	if (hour >= 12 && hour < 17) return 'Afternoon';
+	if (hour >= 17 && hour < 21) return 'Evening';
+	return 'Night';
+}
+
+/**
+ * The hour a tweet was sent in, e.g. "9 AM"
+ */
+export function formatHour(timestamp: string | Date, timeZone: string): string {
+	return new Date(timestamp).toLocaleTimeString('en-US', {
+		timeZone,
+		hour: 'numeric',
+		hour12: true,
+	});
+}
+
+/**
+ * Every day from `from` to `to` (both YYYY-MM-DD), inclusive
+ */
+export function eachDay(from: string, to: string): string[] {
+	const days: string[] = [];
+	const end = new Date(to).getTime();
+	for (let time = new Date(from).getTime(); time <= end; time += 24 * 60 * 60 * 1000) {
+		days.push(new Date(time).toISOString().split('T')[0]);
+	}
+	return days;
+}
@@ -0,0 +1,129 @@
+import { Menu, Notice } from 'obsidian';
+import type TwitterDiaryPlugin from '../main';
+import { AccountInfo } from './account';
+import { AnnotationModal } from './annotation-modal';
+import { Tweet } from './tweet';
+
+/**
+ * What the user has done to single tweets, kept with the settings
+ */
+export interface TweetMarks {
+	// left out of the diary, listed in the settings to restore them
+	hiddenTweets: string[];
+	// shown first, above the date and time headers
+	pinnedTweets: string[];
+	// notes on tweets by ID
+	annotations: { [id: string]: string };
+}
+
+/**
+ * The right-click menu on tweets in notes: hide, pin, annotate and copy
+ */
+export class TweetMenu {
+	constructor(private plugin: TwitterDiaryPlugin) {}
+
+	isHidden(id: string): boolean {
+		return this.plugin.settings.hiddenTweets.indexOf(id) !== -1;
+	}
+
+	isPinned(id: string): boolean {
+		return this.plugin.settings.pinnedTweets.indexOf(id) !== -1;
+	}
+
+	/**
+	 * Hooks the menu up to a rendered tweet and adds its annotation underneath
+	 */
+	attach(element: HTMLElement, tweet: Tweet, account: AccountInfo) {
+		if (this.isPinned(tweet.id)) element.classList.add('tweet-pinned');
+
+		const annotation = this.plugin.settings.annotations[tweet.id];
+		if (annotation) {
+			const note = document.createElement('div');
+			note.className = 'tweet-annotation';
+			note.textContent = annotation;
+			element.appendChild(note);
+		}
+
+		element.addEventListener('contextmenu', (event) => {
+			event.preventDefault();
+			this.menuFor(tweet, account).showAtMouseEvent(event);
+		});
+	}
+
+	async unhide(id: string) {
+		const settings = this.plugin.settings;
+		settings.hiddenTweets = settings.hiddenTweets.filter(hidden => hidden !== id);
+		await this.plugin.saveSettings();
+	}
+
+	private menuFor(tweet: Tweet, account: AccountInfo): Menu {
+		const settings = this.plugin.settings;
+		const pinned = this.isPinned(tweet.id);
+		const annotation = settings.annotations[tweet.id] || '';
+
+		// the settings' lists are shared with the defaults, so they're replaced instead of changed
+		return new Menu()
+			.addItem(item => item
+				.setTitle(pinned ? 'Unpin' : 'Pin to top')
+				.setIcon('pin')
+				.onClick(async () => {
+					settings.pinnedTweets = pinned
+						? settings.pinnedTweets.filter(id => id !== tweet.id)
+						: settings.pinnedTweets.concat(tweet.id);
+					await this.plugin.saveSettings();
+				}))
+			.addItem(item => item
+				.setTitle(annotation ? 'Edit annotation' : 'Add annotation')
+				.setIcon('pencil')
+				.onClick(() => new AnnotationModal(this.plugin.app, annotation, async (text) => {
+					const annotations = Object.assign({}, settings.annotations);
+					if (text) annotations[tweet.id] = text;
+					else delete annotations[tweet.id];
+					settings.annotations = annotations;
+					await this.plugin.saveSettings();
+				}).open()))
+			.addItem(item => item
+				.setTitle('Hide this tweet')
+				.setIcon('eye-off')
+				.onClick(async () => {
+					settings.hiddenTweets = settings.hiddenTweets.concat(tweet.id);
+					await this.plugin.saveSettings();
+					new Notice('Tweet hidden, restore it from the settings');
+				}))
+			.addSeparator()
+			.addItem(item => item
+				.setTitle('Copy as Markdown')
+				.setIcon('copy')
+				.onClick(() => this.copyMarkdown(tweet)))
+			.addItem(item => item
+				.setTitle('Copy link')
+				.setIcon('link')
+				.onClick(async () => {
+					await navigator.clipboard.writeText(this.plugin.shareUrl(tweet, account));
+					new Notice('Copied link to tweet');
+				}));
+	}
+
+	private async copyMarkdown(tweet: Tweet) {
+		try {
+			// the rendered tweet points at app:// media, so start over from the archive
+			const day = this.plugin.toDiaryDay(tweet.timestamp);
+			const tweets = await this.plugin.queryTweets(new Date(day), Object.assign({}, this.plugin.settings, {
+				includeReplies: true,
+				includeThreads: true,
+				includeRetweets: true,
+				includeQuoteTweets: true,
+				includeDeletedTweets: true,
+			}));
+			const original = tweets.find(candidate => candidate.id === tweet.id);
+			if (!original) throw new Error(`tweet ${tweet.id} isn't in the archive`);
+
+			const [markdown] = await this.plugin.writer.toMarkdown([original]);
+			await navigator.clipboard.writeText(markdown);
+			new Notice('Copied tweet as Markdown');
+		} catch (error) {
+			new Notice(`Error copying tweet: ${error.message}`);
+			console.error('Error copying tweet:', error);
+		}
+	}
+}
@@ -0,0 +1,217 @@
+import { ArchiveTweet } from './archive';
+import type { AccountSnapshot } from './account';
+import { TextToken, tokenizeTweet, tokensToText } from './text';
+
+export type TweetKind = 'original' | 'reply' | 'retweet' | 'quote';
+
+// where a post was made, see networks.ts for the ones besides Twitter
+export type Network = 'twitter' | 'mastodon' | 'bluesky';
+
+export const NETWORK_NAMES: Record<Network, string> = {
+	twitter: 'Twitter',
+	mastodon: 'Mastodon',
+	bluesky: 'Bluesky',
+};
+
+/**
+ * A photo, video or GIF attached to a tweet
+ */
+export interface TweetMedia {
+	type: 'photo' | 'video' | 'gif';
+	url: string;
+	// ext_alt_text, empty when none was written
+	alt: string;
+	// of the original, 0 when the archive doesn't say
+	width: number;
+	height: number;
+}
+
+/**
+ * A tweet the way the diary renders it
+ */
+export interface Tweet {
+	// plain text with links expanded, for searching and previews
+	text: string;
+	tokens: TextToken[];
+	timestamp: string;
+	likes: number;
+	retweets: number;
+	id: string;
+	media: TweetMedia[];
+	deleted: boolean;
+	kind: TweetKind;
+	// replies only
+	replyTo?: { id: string, handle: string };
+	// retweets only, handle of whoever wrote the original
+	retweetOf?: string;
+	// quote tweets only, `tweet` is set when the quoted tweet is in the archive
+	quoted?: { id: string, url: string, tweet?: Tweet };
+	// the rest of a self-reply thread, oldest first
+	thread: Tweet[];
+	network: Network;
+	// link to the post. For tweets it goes by ID, share links use the current handle instead
+	url: string;
+	// who posted it on other networks, tweets are by the archive's account
+	author?: AccountSnapshot;
+}
+
+const STATUS_URL = /^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/\w+\/status(?:es)?\/(\d+)/;
+
+/**
+ * Works out what kind of tweet an archive entry is
+ */
+export function tweetKind(raw: ArchiveTweet): TweetKind {
+	if (raw.full_text && raw.full_text.startsWith('RT @')) return 'retweet';
+	if (raw.in_reply_to_status_id_str || raw.in_reply_to_status_id) return 'reply';
+	if (quotedUrl(raw)) return 'quote';
+	return 'original';
+}
+
+/**
+ * The url entity of the tweet being quoted, if any.
+ *
+ * The archive doesn't record quotes directly, a quote tweet is one that ends
+ * with a link to a status. Status links in the middle of the text are just links.
+ */
+function quotedUrl(raw: ArchiveTweet): { url: string, expanded_url: string } | undefined {
+	const urls = (raw.entities && raw.entities.urls) || [];
+	const text = (raw.full_text || '').trim();
+	const quote = urls.find(url => url.expanded_url && STATUS_URL.test(url.expanded_url) && text.endsWith(url.url));
+	return quote && { url: quote.url, expanded_url: quote.expanded_url! };
+}
+
+/**
+ * The tweet's photos, videos and GIFs. Videos use the best mp4 variant
+ */
+export function toMedia(raw: ArchiveTweet): TweetMedia[] {
+	const items = (raw.extended_entities && raw.extended_entities.media) || [];
+	const media: TweetMedia[] = [];
+
+	for (const item of items) {
+		let url = '';
+		if (item.type === 'photo') {
+			url = item.media_url_https;
+		} else if (item.type === 'animated_gif' || item.type === 'video') {
+			const variants = ((item.video_info && item.video_info.variants) || [])
+				.filter((variant: any) => variant.content_type === 'video/mp4')
+				.sort((a: any, b: any) => (parseInt(b.bitrate) || 0) - (parseInt(a.bitrate) || 0));
+			if (variants.length > 0) url = variants[0].url;
+		}
+		if (!url) continue;
+
+		// original_info is only in newer archives, sizes.large is close enough otherwise
+		const size = item.original_info || {};
+		const large = (item.sizes && item.sizes.large) || { w: 0, h: 0 };
+		media.push({
+			type: item.type === 'photo' ? 'photo' : item.type === 'animated_gif' ? 'gif' : 'video',
+			url,
+			alt: item.ext_alt_text || '',
+			width: Number(size.width || large.w) || 0,
+			height: Number(size.height || large.h) || 0,
+		});
+	}
+
+	return media;
+}
+
+/**
+ * Converts an archive entry into the shape the diary renders
+ */
+export function toTweet(raw: ArchiveTweet): Tweet {
+	const kind = tweetKind(raw);
+
+	let retweetOf: string | undefined;
+	let start: number | undefined;
+	if (kind === 'retweet') {
+		const match = /^RT @(\w+):\s*/.exec(raw.full_text);
+		if (match) {
+			retweetOf = match[1];
+			start = Array.from(match[0]).length;
+		}
+	}
+
+	const quote = kind === 'quote' ? quotedUrl(raw) : undefined;
+	// the quoted tweet gets its own box, don't repeat the link
+	const tokens = tokenizeTweet(raw, { start, skipUrls: quote ? [quote.url] : [] });
+
+	const replyId = raw.in_reply_to_status_id_str || raw.in_reply_to_status_id;
+
+	return {
+		text: tokensToText(tokens),
+		tokens,
+		timestamp: raw.created_at,
+		likes: parseInt(raw.favorite_count || '') || 0,
+		retweets: parseInt(raw.retweet_count || '') || 0,
+		id: raw.id,
+		media: toMedia(raw),
+		deleted: !!raw.deleted,
+		kind,
+		replyTo: kind === 'reply' ? { id: String(replyId), handle: raw.in_reply_to_screen_name || '' } : undefined,
+		retweetOf,
+		quoted: quote ? { id: STATUS_URL.exec(quote.expanded_url)![1], url: quote.expanded_url } : undefined,
+		thread: [],
+		// other networks' posts come with these, see networks.ts
+		network: raw.network || 'twitter',
+		url: raw.permalink || `https://x.com/i/status/${raw.id}`,
+		author: raw.author,
+	};
+}
+
+/**
+ * Folds self-replies into the tweet they continue.
+ *
+ * `tweets` should only hold one day's tweets, a reply whose parent isn't in
+ * the list stays a top level tweet.
+ */
+export function collapseThreads(tweets: Tweet[]): Tweet[] {
+	const byId = new Map<string, Tweet>();
+	tweets.forEach(tweet => byId.set(String(tweet.id), tweet));
+
+	const rootOf = (tweet: Tweet): Tweet => {
+		let current = tweet;
+		const seen = new Set<Tweet>();
+		while (current.replyTo && byId.has(current.replyTo.id) && !seen.has(current)) {
+			seen.add(current);
+			current = byId.get(current.replyTo.id)!;
+		}
+		return current;
+	};
+
+	const topLevel: Tweet[] = [];
+	for (const tweet of tweets) {
+		const root = rootOf(tweet);
+		if (root === tweet) {
+			topLevel.push(tweet);
+		} else {
+			root.thread.push(tweet);
+		}
+	}
+
+	topLevel.forEach(tweet => tweet.thread.sort(compareTweets));
+	return topLevel;
+}
+
+/**
+ * Oldest first by created_at. Tweets from the same second go by ID, which
+ * Twitter hands out in order
+ */
+export function compareTweets(a: Tweet, b: Tweet): number {
+	const byTime = new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+	return byTime || compareIds(a.id, b.id);
+}
+
+/**
+ * Sorts `tweets` in place, oldest or newest first
+ */
+export function sortTweets(tweets: Tweet[], order: 'oldest' | 'newest'): Tweet[] {
+	const direction = order === 'newest' ? -1 : 1;
+	return tweets.sort((a, b) => direction * compareTweets(a, b));
+}
+
+// IDs are too big for numbers, but a longer one is always later
+export function compareIds(a: string, b: string): number {
+	a = String(a);
+	b = String(b);
+	if (a.length !== b.length) return a.length - b.length;
+	return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,193 @@
+import { Notice, TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+import type TwitterDiaryPlugin from '../main';
+import { Tweet } from './tweet';
+import { eachDay } from './time';
+import { linkTarget } from './text';
+import { BLOCK_BEGIN, tweetToMarkdown, tweetsBlock, upsertTweetsBlock } from './markdown';
+import { ensureFolder } from './media';
+import { applyProperties, tweetProperties } from './properties';
+
+/**
+ * Writes tweets into diary notes as static Markdown, so search, backlinks
+ * and everything else that doesn't run the plugin can see them
+ */
+export class NoteWriter {
+	constructor(private plugin: TwitterDiaryPlugin) {}
+
+	/**
+	 * Writes the tweets from `from` to `to` into `file`, returns how many were written.
+	 * Pass `tweets` when they've already been looked up
+	 */
+	async writeNote(file: TFile, from: string, to: string = from, tweets?: Tweet[]): Promise<number> {
+		if (!tweets) {
+			tweets = [];
+			for (const day of eachDay(from, to)) {
+				tweets = tweets.concat(await this.plugin.queryTweets(new Date(day)));
+			}
+		}
+		const existing = await this.plugin.app.vault.read(file);
+
+		// don't litter notes with empty blocks, but do clear out an old one
+		if (tweets.length === 0 && existing.indexOf(BLOCK_BEGIN) === -1) {
+			return 0;
+		}
+
+		const block = tweetsBlock(await this.toMarkdown(tweets));
+		const updated = upsertTweetsBlock(existing, block);
+		if (updated !== existing) {
+			await this.plugin.app.vault.modify(file, updated);
+		}
+		// properties are per day, weekly and monthly notes don't get them
+		if (this.plugin.settings.writeProperties && from === to) {
+			await this.writeProperties(file, from, tweets);
+		}
+		return tweets.length;
+	}
+
+	/**
+	 * Writes the day's tweet_count, tweet_ids etc. into the note's frontmatter,
+	 * leaving the file alone when they're already up to date
+	 */
+	async writeProperties(file: TFile, day: string, tweets?: Tweet[]) {
+		const { app } = this.plugin;
+		const handle = (await this.plugin.account.at(new Date())).handle;
+		const properties = tweetProperties(tweets || await this.plugin.queryTweets(new Date(day)),
+			tweet => this.permalink(handle, tweet));
+
+		// processFrontMatter always rewrites the file, so check the cache first
+		const cache = app.metadataCache.getFileCache(file);
+		const current = Object.assign({}, cache && cache.frontmatter);
+		if (!applyProperties(current, properties)) return;
+
+		await app.fileManager.processFrontMatter(file, frontmatter => {
+			applyProperties(frontmatter, properties);
+		});
+	}
+
+	/**
+	 * Updates the properties of every existing diary note
+	 */
+	async writeAllProperties() {
+		let notes = 0;
+		try {
+			for (const [day, file] of Array.from(this.plugin.dailyNotes())) {
+				await this.writeProperties(file, day);
+				notes++;
+			}
+			new Notice(`Updated tweet properties in ${notes} notes`);
+		} catch (error) {
+			new Notice("Error writing tweet properties");
+			console.error('Error writing tweet properties:', error);
+		}
+	}
+
+	/**
+	 * Writes tweets into every existing diary note from `from` to `to`
+	 */
+	async writeRange(from: string, to: string) {
+		let notes = 0;
+		try {
+			const existing = this.plugin.dailyNotes();
+			for (const day of eachDay(from, to)) {
+				const file = existing.get(day);
+				if (file) {
+					await this.writeNote(file, day);
+					notes++;
+				}
+			}
+			new Notice(`Wrote tweets into ${notes} notes`);
+		} catch (error) {
+			new Notice("Error writing tweets");
+			console.error('Error writing tweets:', error);
+		}
+	}
+
+	/**
+	 * Writes tweets into a note for every day with tweets, creating missing
+	 * notes from the template
+	 */
+	async backfill() {
+		let created = 0;
+		let written = 0;
+		try {
+			const existing = this.plugin.dailyNotes();
+			for (const day of await this.plugin.archive.getDays()) {
+				const tweets = await this.plugin.queryTweets(new Date(day));
+				if (tweets.length === 0) continue;
+
+				let file = existing.get(day);
+				if (!file) {
+					file = await this.createNote(day);
+					created++;
+				}
+				await this.writeNote(file, day, day, tweets);
+				written++;
+			}
+			new Notice(`Wrote tweets into ${written} notes, ${created} of them new`);
+		} catch (error) {
+			new Notice("Error backfilling diary");
+			console.error('Error backfilling diary:', error);
+		}
+	}
+
+	/**
+	 * Creates the diary note for `day` from the template
+	 */
+	async createNote(day: string): Promise<TFile> {
+		const vault = this.plugin.app.vault;
+		const notePath = this.plugin.notes.dayPath(day);
+
+		await ensureFolder(vault, path.posix.dirname(notePath));
+
+		let template = '';
+		const templateFile = vault.getAbstractFileByPath(normalizePath(this.plugin.settings.noteTemplatePath));
+		if (this.plugin.settings.noteTemplatePath && templateFile instanceof TFile) {
+			template = (await vault.read(templateFile))
+				.replace(/\{\{\s*date\s*\}\}/g, day)
+				.replace(/\{\{\s*title\s*\}\}/g, path.posix.basename(notePath, '.md'));
+		}
+
+		return vault.create(notePath, template);
+	}
+
+	/**
+	 * The tweets as callouts, importing their media into the vault first
+	 */
+	async toMarkdown(tweets: Tweet[]): Promise<string[]> {
+		const settings = this.plugin.settings;
+		const handle = (await this.plugin.account.at(new Date())).handle;
+
+		// media has to be in the vault (or remote) before we can link to it
+		const embeds = new Map<string, string>();
+		const collect = async (tweet: Tweet) => {
+			for (const item of tweet.media) {
+				// alt text can't break out of the embed
+				const alt = item.alt.replace(/[\[\]|\n]+/g, ' ').trim();
+				const vaultPath = await this.plugin.media.importPath(tweet.id, item.url);
+				if (vaultPath) {
+					embeds.set(item.url, alt ? `![[${vaultPath}|${alt}]]` : `![[${vaultPath}]]`);
+				} else if (settings.allowRemoteMedia) {
+					embeds.set(item.url, `![${alt}](${item.url})`);
+				}
+			}
+			if (tweet.quoted && tweet.quoted.tweet) await collect(tweet.quoted.tweet);
+			for (const part of tweet.thread) await collect(part);
+		};
+		for (const tweet of tweets) {
+			await collect(tweet);
+		}
+
+		return tweets.map(tweet => tweetToMarkdown(tweet, {
+			timeZone: this.plugin.timeZone(),
+			permalink: (tweet) => this.permalink(handle, tweet),
+			embed: (tweet, item) => embeds.get(item.url) || '',
+			mentionLink: (name) => linkTarget(settings.mentionLinkTemplate, name),
+			hashtagLink: (name) => linkTarget(settings.hashtagLinkTemplate, name),
+		}));
+	}
+
+	private permalink(handle: string, tweet: Tweet): string {
+		return tweet.network === 'twitter' ? `https://x.com/${handle}/status/${tweet.id}` : tweet.url;
+	}
+}
@@ -0,0 +1,122 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { AccountHistory, AccountSettings } from '../src/account';
+import { App } from './obsidian';
+import { toDayKey } from '../src/time';
+import { ACCOUNT_ID, TIME_ZONE, createArchive } from './fixture';
+
+const METADATA = 'Assets/Twitter';
+
+function createHistory(dataPath: string, app = new App(), settings: Partial<AccountSettings> = {}, timeZone = TIME_ZONE) {
+	return new AccountHistory(app as any, () => Object.assign({ dataPath, metadataPath: METADATA, allowRemoteMedia: false }, settings),
+		timestamp => toDayKey(timestamp, timeZone));
+}
+
+const profileAvatar = (dataPath: string) =>
+	'app://local/' + encodeURI(path.join(dataPath, 'profile_media', `${ACCOUNT_ID}-face.jpg`).replace(/^\//, ''));
+
+describe('AccountHistory', () => {
+	it('reads the name, handle and avatar from the archive', async () => {
+		const archive = createArchive();
+		try {
+			const info = await createHistory(archive.dataPath).info(new Date('2023-06-15T12:00:00Z'));
+			assert.equal(info.username, 'Test User');
+			assert.equal(info.handle, 'newhandle');
+			assert.equal(info.avatar, profileAvatar(archive.dataPath));
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('uses the handle from before a rename on earlier days', async () => {
+		const archive = createArchive();
+		try {
+			const history = createHistory(archive.dataPath);
+			const before = await history.info(new Date('2023-05-31T12:00:00Z'));
+			assert.equal(before.handle, 'oldhandle');
+			assert.equal(before.currentHandle, 'newhandle');
+			assert.equal((await history.info(new Date('2023-06-01T12:00:00Z'))).handle, 'newhandle');
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('dates a rename by the diary\'s timezone', async () => {
+		const archive = createArchive();
+		try {
+			// 10:30 PM on May 31st in New York
+			fs.writeFileSync(path.join(archive.dataPath, 'screen-name-change.js'), 'window.YTD.screen_name_change.part0 = ' + JSON.stringify([{
+				screenNameChange: { screenNameChange: { changedAt: '2023-06-01T02:30:00.000Z', changedFrom: 'oldhandle', changedTo: 'newhandle' } },
+			}]));
+			const history = createHistory(archive.dataPath);
+			assert.equal((await history.info(new Date('2023-05-30'))).handle, 'oldhandle');
+			assert.equal((await history.info(new Date('2023-05-31'))).handle, 'newhandle');
+			assert.equal((await createHistory(archive.dataPath, new App(), {}, 'UTC').info(new Date('2023-05-31'))).handle, 'oldhandle');
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('only links the remote avatar when it isn\'t in profile_media and remote media is allowed', async () => {
+		const archive = createArchive();
+		try {
+			fs.rmSync(path.join(archive.dataPath, 'profile_media'), { recursive: true });
+			const day = new Date('2023-06-15T12:00:00Z');
+			assert.equal((await createHistory(archive.dataPath).info(day)).avatar, '');
+			assert.equal((await createHistory(archive.dataPath, new App(), { allowRemoteMedia: true }).info(day)).avatar,
+				'https://pbs.twimg.com/profile_images/1/face.jpg');
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('lets dated metadata folders override the archive up to their date', async () => {
+		const archive = createArchive();
+		try {
+			const app = new App();
+			await app.vault.create(`${METADATA}/2023-03-31/2023-03-31.md`, 'Old Name\nolder_handle\n');
+			await app.vault.createBinary(`${METADATA}/2023-03-31/avatar.png`, new ArrayBuffer(4));
+			await app.vault.create(`${METADATA}/2023-12-31/2023-12-31.md`, 'Late Name\n');
+			const history = createHistory(archive.dataPath, app);
+
+			const march = await history.info(new Date('2023-03-12T12:00:00Z'));
+			assert.equal(march.username, 'Old Name');
+			assert.equal(march.handle, 'older_handle');
+			assert.equal(march.avatar, `app://local/vault/${METADATA}/2023-03-31/avatar.png`);
+
+			// only a name in this one, handle and avatar fall through to the archive
+			const june = await history.info(new Date('2023-06-15T12:00:00Z'));
+			assert.equal(june.username, 'Late Name');
+			assert.equal(june.handle, 'newhandle');
+			assert.equal(june.avatar, profileAvatar(archive.dataPath));
+
+			assert.equal((await history.info(new Date('2024-01-01T12:00:00Z'))).username, 'Test User');
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('falls back to Twitter.md and avatar.* when the archive has no account files', async () => {
+		const archive = createArchive();
+		try {
+			['account.js', 'profile.js', 'screen-name-change.js'].forEach(file => fs.rmSync(path.join(archive.dataPath, file)));
+			const app = new App();
+			await app.vault.create(`${METADATA}/Twitter.md`, 'Fallback Name\nfallback\n');
+			await app.vault.createBinary(`${METADATA}/avatar.jpg`, new ArrayBuffer(4));
+
+			const history = createHistory(archive.dataPath, app);
+			const info = await history.info(new Date('2023-06-15T12:00:00Z'));
+			assert.deepEqual(info, {
+				username: 'Fallback Name',
+				handle: 'fallback',
+				avatar: `app://local/vault/${METADATA}/avatar.jpg`,
+				currentHandle: 'fallback',
+			});
+			assert.equal(await history.accountId(), '');
+		} finally {
+			archive.remove();
+		}
+	});
+});
@@ -0,0 +1,29 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { IDS } from './fixture';
+import { notices } from './obsidian';
+import { withPlugin } from './plugin';
+
+describe('api', () => {
+	it('gets the tweets of a range oldest first', async () => {
+		await withPlugin({ tweetOrder: 'newest' }, async plugin => {
+			const tweets = await plugin.api.getTweets('2023-03-10', '2023-03-12');
+			assert.deepEqual(tweets.map(tweet => tweet.id), [IDS.eveBeforeSpring, IDS.beforeSpring, IDS.afterSpring]);
+			assert.deepEqual(await plugin.api.getTweets('2023-01-01'), []);
+		});
+	});
+
+	it('rejects when the archive can\'t be read instead of finding nothing', async () => {
+		await withPlugin({ dataPath: '/nonexistent/twitter-archive/data' }, async plugin => {
+			notices.length = 0;
+			await assert.rejects(plugin.api.getTweets('2023-06-01', '2023-06-30'), /Can't open the archive folder/);
+			assert.deepEqual(notices, []);
+		});
+	});
+
+	it('rejects days that aren\'t YYYY-MM-DD', async () => {
+		await withPlugin({}, async plugin => {
+			await assert.rejects(plugin.api.getTweets('June 1st'), /getTweets takes days as YYYY-MM-DD/);
+		});
+	});
+});
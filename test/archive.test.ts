@@ -0,0 +1,152 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { ArchiveIndex, ArchiveSource, SourceStamp, TweetSource, findParts, parseYTD } from '../src/archive';
+import { toDayKey } from '../src/time';
+import { MemoryAdapter } from './obsidian';
+import { IDS, TIME_ZONE, createArchive } from './fixture';
+
+function createIndex(dataPath: string, adapter = new MemoryAdapter(), timeZone = () => TIME_ZONE, wrap = (source: TweetSource) => source) {
+	const source = wrap(new ArchiveSource(() => dataPath, () => []));
+	return new ArchiveIndex(adapter as any, 'index.json', () => [source], timestamp => toDayKey(timestamp, timeZone()), timeZone);
+}
+
+const ids = (tweets: any[]) => tweets.map(tweet => tweet.id_str).sort();
+
+describe('parseYTD and findParts', () => {
+	it('strips the window.YTD prefix', () => {
+		assert.deepEqual(parseYTD('window.YTD.tweets.part0 = [{"tweet": {"id": "1"}}]'), [{ tweet: { id: '1' } }]);
+	});
+
+	it('finds every part of a file in part order', () => {
+		const files = ['tweets-part10.js', 'tweets-part2.js', 'tweets.js', 'tweets-part1.js', 'tweet-headers.js', 'deleted-tweets.js'];
+		assert.deepEqual(findParts(files, 'tweets'), ['tweets.js', 'tweets-part1.js', 'tweets-part2.js', 'tweets-part10.js']);
+	});
+});
+
+describe('ArchiveIndex', () => {
+	it('reads tweets from every part file', async () => {
+		const archive = createArchive();
+		try {
+			const index = createIndex(archive.dataPath);
+			assert.ok(await index.getTweet(IDS.entities), 'tweets.js');
+			assert.ok(await index.getTweet(IDS.threadNext), 'tweets-part1.js');
+			assert.equal((await index.getTweet(IDS.deleted))!.deleted, true);
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('buckets tweets by the day they were posted in the timezone, across DST', async () => {
+		const archive = createArchive();
+		try {
+			const index = createIndex(archive.dataPath);
+			assert.deepEqual(ids(await index.getTweetsForDay('2023-03-11')), [IDS.eveBeforeSpring]);
+			assert.deepEqual(ids(await index.getTweetsForDay('2023-03-12')), [IDS.beforeSpring, IDS.afterSpring]);
+			assert.deepEqual(ids(await index.getTweetsForDay('2023-11-05')), [IDS.firstHalfPast, IDS.secondHalfPast, IDS.lateNovember5]);
+			assert.deepEqual(await index.getTweetsForDay('2023-11-06'), []);
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('buckets again when the timezone changes', async () => {
+		const archive = createArchive();
+		try {
+			let timeZone = TIME_ZONE;
+			const index = createIndex(archive.dataPath, new MemoryAdapter(), () => timeZone);
+			assert.equal((await index.getTweetsForDay('2023-11-06')).length, 0);
+
+			timeZone = 'UTC';
+			assert.deepEqual(ids(await index.getTweetsForDay('2023-11-06')), [IDS.lateNovember5]);
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('uses the stored index instead of reading the archive again', async () => {
+		const archive = createArchive();
+		try {
+			const adapter = new MemoryAdapter();
+			await createIndex(archive.dataPath, adapter).getDays();
+			assert.ok(await adapter.exists('index.json'));
+
+			const reads: SourceStamp[][] = [];
+			const index = createIndex(archive.dataPath, adapter, undefined, source => ({
+				stamp: () => source.stamp(),
+				read: (stamps: SourceStamp[]) => {
+					reads.push(stamps);
+					return source.read(stamps);
+				},
+			}));
+			assert.deepEqual(ids(await index.getTweetsForDay('2023-03-12')), [IDS.beforeSpring, IDS.afterSpring]);
+			assert.equal(reads.length, 0);
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('only checks the archive\'s files again after invalidate()', async () => {
+		const archive = createArchive();
+		try {
+			let stamped = 0;
+			const index = createIndex(archive.dataPath, new MemoryAdapter(), undefined, source => ({
+				stamp: () => {
+					stamped++;
+					return source.stamp();
+				},
+				read: (stamps: SourceStamp[]) => source.read(stamps),
+			}));
+			for (let i = 0; i < 10; i++) await index.getTweet(IDS.reply);
+			await index.getTweetsForDay('2023-06-15');
+			assert.equal(stamped, 1);
+
+			index.invalidate();
+			await index.getTweet(IDS.reply);
+			await index.getTweet(IDS.reply);
+			assert.equal(stamped, 2);
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('rebuilds when an archive file changes', async () => {
+		const archive = createArchive();
+		try {
+			const index = createIndex(archive.dataPath);
+			assert.equal(await index.getTweet('1669000000000000099'), undefined);
+
+			const file = path.join(archive.dataPath, 'tweets-part1.js');
+			const entries = parseYTD(fs.readFileSync(file, 'utf8'));
+			entries.push({ tweet: { id: '1669000000000000099', id_str: '1669000000000000099', full_text: 'Late addition', created_at: 'Thu Jun 15 20:00:00 +0000 2023' } });
+			fs.writeFileSync(file, `window.YTD.tweets.part1 = ${JSON.stringify(entries)}`);
+
+			index.invalidate();
+			assert.ok(await index.getTweet('1669000000000000099'));
+		} finally {
+			archive.remove();
+		}
+	});
+
+	it('says which folder it couldn\'t open', async () => {
+		const index = createIndex('/nonexistent/twitter/data');
+		await assert.rejects(index.getDays(), /Can't open the archive folder \/nonexistent\/twitter\/data/);
+	});
+
+	it('leaves out entries whose date doesn\'t parse instead of failing', async () => {
+		const tweet = (id: string, created_at: any) => ({ id, id_str: id, full_text: id, created_at });
+		const source: TweetSource = {
+			stamp: async () => [{ file: 'feed.json', kind: 'tweets', mtime: 1, size: 1 }],
+			read: async () => ({
+				tweets: [tweet('1', 'Thu Jun 15 14:00:00 +0000 2023'), tweet('2', 'not a date'), tweet('3', undefined)],
+				messages: [{ timestamp: 'yesterday' } as any],
+			}),
+		};
+		const index = new ArchiveIndex(new MemoryAdapter() as any, 'index.json', () => [source], timestamp => toDayKey(timestamp, TIME_ZONE), () => TIME_ZONE);
+
+		assert.deepEqual(await index.getDays(), ['2023-06-15']);
+		assert.equal(await index.merge(source, [tweet('4', 'soon')]), 0);
+		assert.equal(await index.getTweet('4'), undefined);
+	});
+});
@@ -0,0 +1,101 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { CidLink, readCar } from '../src/car';
+import { blueskyPosts, carRecords } from '../src/networks';
+import { DID, cborBlock, encodeCar, encodeCbor, rawBlock, repoExport, varint } from './cbor';
+
+describe('readCar', () => {
+	it('reads the roots and the DAG-CBOR blocks, leaving blobs out', () => {
+		const record = cborBlock({ text: 'hi', n: -5, big: 2 ** 40, half: 1.5, yes: true, none: null, list: [1, 'two', new Uint8Array([3])] });
+		const blob = rawBlock(new Uint8Array([1, 2, 3]));
+		const car = readCar(encodeCar([record.cid], [record, blob]));
+
+		assert.equal(car.roots.length, 1);
+		assert.equal(car.roots[0].key, record.cid.key);
+		assert.equal(car.blocks.size, 1);
+		assert.deepEqual(car.blocks.get(record.cid.key), {
+			text: 'hi', n: -5, big: 2 ** 40, half: 1.5, yes: true, none: null, list: [1, 'two', new Uint8Array([3])],
+		});
+	});
+
+	it('turns links into CIDs with the usual base32 form', () => {
+		const target = cborBlock({ a: 1 });
+		const linking = cborBlock({ link: target.cid });
+		const car = readCar(encodeCar([linking.cid], [linking, target]));
+
+		const link = car.blocks.get(linking.cid.key).link;
+		assert.ok(link instanceof CidLink);
+		assert.equal(link.key, target.cid.key);
+		// CIDv1, dag-cbor, sha2-256
+		assert.match(link.toString(), /^bafyrei[a-z2-7]{52}$/);
+	});
+
+	it('reads half and single precision floats', () => {
+		// 0xf9 3e00 is 1.5 as a half, 0xfa 3fc00000 is 1.5 as a single
+		const data = Uint8Array.from([0x82, 0xf9, 0x3e, 0x00, 0xfa, 0x3f, 0xc0, 0x00, 0x00]);
+		const block = { cid: cborBlock(null).cid, data };
+		assert.deepEqual(readCar(encodeCar([], [block])).blocks.get(block.cid.key), [1.5, 1.5]);
+	});
+
+	it('says so when the file isn\'t a CAR file', () => {
+		assert.throws(() => readCar(new Uint8Array(0)), /Not a CAR file/);
+		assert.throws(() => readCar(new TextEncoder().encode('{"records": []}')), /Not a CAR file/);
+		const header = encodeCbor({ version: 2, roots: [] });
+		assert.throws(() => readCar(Uint8Array.from(varint(header.length).concat(Array.from(header)))), /no version 1 header/);
+	});
+
+	it('throws a clear error for a file cut off anywhere, instead of reading past it', () => {
+		const data = repoExport();
+		for (let length = 0; length < data.length; length++) {
+			try {
+				readCar(data.subarray(0, length));
+			} catch (error) {
+				assert.match(error.message, /^(Not a CAR file|Broken CAR file, block at byte \d+): /, `cut at ${length}`);
+			}
+		}
+	});
+
+	it('throws for block lengths past the end and endless varints', () => {
+		const header = encodeCbor({ version: 1, roots: [] });
+		const start = varint(header.length).concat(Array.from(header));
+		assert.throws(() => readCar(Uint8Array.from(start.concat(varint(1e9), [1, 2, 3]))), /block at byte \d+: Unexpected end of data/);
+		assert.throws(() => readCar(Uint8Array.from(start.concat(new Array(20).fill(0xff), [1]))), /Varint too long/);
+		// a CID that claims a bigger digest than the block has
+		assert.throws(() => readCar(Uint8Array.from(start.concat([6, 0x01, 0x71, 0x12, 0x20, 0, 0]))), /CID is longer than its block|Unexpected end of data/);
+	});
+
+	it('skips blocks that are nested absurdly deep instead of overflowing the stack', () => {
+		const deep = { cid: cborBlock('deep').cid, data: Uint8Array.from(new Array(100000).fill(0x81).concat([0x00])) };
+		const fine = cborBlock({ ok: true });
+		const car = readCar(encodeCar([], [deep, fine]));
+		assert.equal(car.blocks.has(deep.cid.key), false);
+		assert.deepEqual(car.blocks.get(fine.cid.key), { ok: true });
+	});
+});
+
+describe('carRecords', () => {
+	it('finds each record\'s collection and key through the MST', () => {
+		const records = carRecords(repoExport());
+		assert.deepEqual(records.map(record => `${record.collection}/${record.rkey}`).sort(), [
+			'app.bsky.actor.profile/self',
+			'app.bsky.feed.like/3kzzz',
+			'app.bsky.feed.post/3kaaa',
+			'app.bsky.feed.post/3kbbb',
+		]);
+		assert.ok(records.every(record => record.did === DID));
+	});
+
+	it('makes posts out of them', () => {
+		const posts = blueskyPosts(carRecords(repoExport()));
+		assert.deepEqual(posts.map(post => post.id_str), ['bluesky:3kaaa', 'bluesky:3kbbb']);
+
+		const [first, reply] = posts;
+		assert.equal(first.author!.username, 'Sky Person');
+		assert.match(first.author!.avatar, new RegExp(`^https://cdn\\.bsky\\.app/img/avatar/plain/${DID}/bafkrei[a-z2-7]+@jpeg$`));
+		// facets count UTF-8 bytes, the é and the emoji shift them
+		assert.deepEqual(first.entities!.urls, [{ url: 'example.com/page', expanded_url: 'https://example.com/page' }]);
+		assert.equal(first.extended_entities!.media![0].ext_alt_text, 'A butterfly');
+		assert.equal(first.permalink, `https://bsky.app/profile/${DID}/post/3kaaa`);
+		assert.equal(reply.in_reply_to_status_id_str, 'bluesky:3kaaa');
+	});
+});
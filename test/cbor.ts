@@ -0,0 +1,154 @@
+/**
+ * Writes DAG-CBOR and CARv1, enough to make small Bluesky repo exports the
+ * way "Export my data" lays them out: a commit, MST nodes and records
+ */
+import { createHash } from 'crypto';
+import { CidLink } from '../src/car';
+
+export function encodeCbor(value: any): Uint8Array {
+	const out: number[] = [];
+	write(out, value);
+	return Uint8Array.from(out);
+}
+
+function write(out: number[], value: any) {
+	if (value === null || value === undefined) {
+		out.push(0xf6);
+	} else if (value === false || value === true) {
+		out.push(value ? 0xf5 : 0xf4);
+	} else if (typeof value === 'number' && !Number.isInteger(value)) {
+		const bytes = new Uint8Array(8);
+		new DataView(bytes.buffer).setFloat64(0, value);
+		out.push(0xfb, ...Array.from(bytes));
+	} else if (typeof value === 'number') {
+		head(out, value < 0 ? 1 : 0, value < 0 ? -1 - value : value);
+	} else if (typeof value === 'string') {
+		const bytes = new TextEncoder().encode(value);
+		head(out, 3, bytes.length);
+		out.push(...Array.from(bytes));
+	} else if (value instanceof CidLink) {
+		// tag 42, bytes with the leading 0 for the identity multibase
+		out.push(0xd8, 42);
+		write(out, Uint8Array.from([0].concat(Array.from(value.bytes))));
+	} else if (value instanceof Uint8Array) {
+		head(out, 2, value.length);
+		out.push(...Array.from(value));
+	} else if (Array.isArray(value)) {
+		head(out, 4, value.length);
+		value.forEach(item => write(out, item));
+	} else {
+		// DAG-CBOR wants keys sorted, shortest first
+		const keys = Object.keys(value).sort((a, b) => a.length - b.length || (a < b ? -1 : 1));
+		head(out, 5, keys.length);
+		keys.forEach(key => {
+			write(out, key);
+			write(out, value[key]);
+		});
+	}
+}
+
+function head(out: number[], major: number, arg: number) {
+	if (arg < 24) {
+		out.push((major << 5) | arg);
+	} else if (arg < 0x100) {
+		out.push((major << 5) | 24, arg);
+	} else if (arg < 0x10000) {
+		out.push((major << 5) | 25, arg >> 8, arg & 0xff);
+	} else if (arg < 0x100000000) {
+		out.push((major << 5) | 26, (arg >>> 24) & 0xff, (arg >> 16) & 0xff, (arg >> 8) & 0xff, arg & 0xff);
+	} else {
+		out.push((major << 5) | 27);
+		const high = Math.floor(arg / 0x100000000);
+		const low = arg % 0x100000000;
+		[high, low].forEach(part => out.push((part >>> 24) & 0xff, (part >> 16) & 0xff, (part >> 8) & 0xff, part & 0xff));
+	}
+}
+
+export function varint(value: number): number[] {
+	const bytes: number[] = [];
+	while (value >= 0x80) {
+		bytes.push((value % 0x80) | 0x80);
+		value = Math.floor(value / 0x80);
+	}
+	bytes.push(value);
+	return bytes;
+}
+
+/**
+ * A CIDv1 with a sha2-256 hash of `data`, 0x71 is dag-cbor and 0x55 raw
+ */
+export function cidFor(data: Uint8Array, codec = 0x71): CidLink {
+	const digest = createHash('sha256').update(data).digest();
+	return new CidLink(Uint8Array.from([0x01, codec, 0x12, 0x20].concat(Array.from(digest))));
+}
+
+export interface Block {
+	cid: CidLink;
+	data: Uint8Array;
+}
+
+export function cborBlock(value: any): Block {
+	const data = encodeCbor(value);
+	return { cid: cidFor(data), data };
+}
+
+export function rawBlock(data: Uint8Array): Block {
+	return { cid: cidFor(data, 0x55), data };
+}
+
+export function encodeCar(roots: CidLink[], blocks: Block[]): Uint8Array {
+	const header = encodeCbor({ version: 1, roots });
+	const out = varint(header.length).concat(Array.from(header));
+	for (const block of blocks) {
+		out.push(...varint(block.cid.bytes.length + block.data.length), ...Array.from(block.cid.bytes), ...Array.from(block.data));
+	}
+	return Uint8Array.from(out);
+}
+
+export const DID = 'did:plc:abc123testuser';
+
+/**
+ * A repo with a profile, two posts (one with a link facet after an emoji and
+ * an image, one replying to it) and a like, which isn't a post
+ */
+export function repoExport(): Uint8Array {
+	const image = rawBlock(new TextEncoder().encode('not really a jpeg'));
+	const profile = cborBlock({ $type: 'app.bsky.actor.profile', displayName: 'Sky Person', avatar: { $type: 'blob', ref: image.cid, mimeType: 'image/jpeg', size: 17 } });
+	const text = 'Héllo 🦋 see example.com/page';
+	const byteStart = new TextEncoder().encode('Héllo 🦋 see ').length;
+	const post = cborBlock({
+		$type: 'app.bsky.feed.post',
+		text,
+		createdAt: '2024-02-01T10:00:00.000Z',
+		facets: [{
+			index: { byteStart, byteEnd: byteStart + 'example.com/page'.length },
+			features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/page' }],
+		}],
+		embed: { $type: 'app.bsky.embed.images', images: [{ alt: 'A butterfly', image: { $type: 'blob', ref: image.cid, mimeType: 'image/jpeg', size: 17 }, aspectRatio: { width: 4, height: 3 } }] },
+	});
+	const reply = cborBlock({
+		$type: 'app.bsky.feed.post',
+		text: 'replying to myself',
+		createdAt: '2024-02-01T10:05:00.000Z',
+		reply: {
+			root: { uri: `at://${DID}/app.bsky.feed.post/3kaaa`, cid: post.cid.toString() },
+			parent: { uri: `at://${DID}/app.bsky.feed.post/3kaaa`, cid: post.cid.toString() },
+		},
+	});
+	const like = cborBlock({ $type: 'app.bsky.feed.like', createdAt: '2024-02-01T11:00:00.000Z', subject: { uri: 'at://did:plc:other/app.bsky.feed.post/1', cid: 'x' } });
+
+	const key = (value: string) => new TextEncoder().encode(value);
+	// keys share a prefix with the entry before them
+	const mst = cborBlock({
+		l: null,
+		e: [
+			{ p: 0, k: key('app.bsky.actor.profile/self'), v: profile.cid, t: null },
+			{ p: 9, k: key('feed.like/3kzzz'), v: like.cid, t: null },
+			{ p: 14, k: key('post/3kaaa'), v: post.cid, t: null },
+			{ p: 21, k: key('bbb'), v: reply.cid, t: null },
+		],
+	});
+	const commit = cborBlock({ did: DID, version: 3, data: mst.cid, rev: '3kabc', prev: null, sig: new Uint8Array(64) });
+
+	return encodeCar([commit.cid], [commit, mst, profile, post, reply, like, image]);
+}
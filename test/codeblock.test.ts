@@ -0,0 +1,56 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { parseBlockOptions } from '../src/codeblock';
+
+describe('parseBlockOptions', () => {
+	it('takes an empty block as the note\'s day with the settings', () => {
+		assert.deepEqual(parseBlockOptions(''), {});
+		assert.deepEqual(parseBlockOptions('\n  \n'), {});
+	});
+
+	it('reads every option', () => {
+		assert.deepEqual(parseBlockOptions([
+			'from: 2024-01-01',
+			'to: 2024-01-07',
+			'include: [replies, retweets]',
+			'limit: 5',
+			'sort: newest',
+			'layout: compact',
+			'group: part-of-day',
+			'query: Obsidian',
+		].join('\n')), {
+			from: '2024-01-01',
+			to: '2024-01-07',
+			include: ['replies', 'retweets'],
+			limit: 5,
+			sort: 'newest',
+			layout: 'compact',
+			group: 'part-of-day',
+			query: 'Obsidian',
+		});
+		assert.deepEqual(parseBlockOptions('include: threads'), { include: ['threads'] });
+	});
+
+	it('reads on-this-day and stats', () => {
+		assert.deepEqual(parseBlockOptions('on-this-day: true'), { onThisDay: true });
+		assert.deepEqual(parseBlockOptions('on-this-day: true\ndate: 2024-03-01'), { date: '2024-03-01', onThisDay: true });
+		assert.deepEqual(parseBlockOptions('stats: 2023'), { stats: '2023' });
+		assert.deepEqual(parseBlockOptions('stats: all'), { stats: 'all' });
+	});
+
+	it('says what\'s wrong with an option', () => {
+		const fails = (source: string, message: RegExp) => assert.throws(() => parseBlockOptions(source), message);
+		fails('date: yesterday', /^Error: date should look like YYYY-MM-DD, got "yesterday"$/);
+		fails('date: 2024-01-01\nfrom: 2024-01-01', /either date or from\/to/);
+		fails('from: 2024-02-01\nto: 2024-01-01', /from is after to/);
+		fails('include: [replies, boosts]', /unknown include "boosts"/);
+		fails('limit: 0', /limit should be a positive number/);
+		fails('limit: 1.5', /limit should be a positive number/);
+		fails('sort: random', /sort should be oldest or newest/);
+		fails('layout: grid', /layout should be one of cards, compact, list, timeline/);
+		fails('group: minute', /group should be one of none, part-of-day, hour/);
+		fails('on-this-day: yes', /on-this-day should be true or false/);
+		fails('on-this-day: true\nfrom: 2024-01-01', /on-this-day takes a date, not from\/to/);
+		fails('stats: 23', /stats should be a year or all/);
+	});
+});
@@ -0,0 +1,210 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { toTweet } from '../src/tweet';
+import { ACCOUNT_ID, IDS } from './fixture';
+import { notices } from './obsidian';
+import { withPlugin } from './plugin';
+
+const localUrl = (file: string) => 'app://local/' + encodeURI(file.replace(/^\//, ''));
+const ids = (tweets: { id: string }[]) => tweets.map(tweet => tweet.id);
+
+describe('getTweetsForDate', () => {
+	it('leaves out replies, retweets and deleted tweets by default', async () => {
+		await withPlugin({}, async plugin => {
+			const tweets = await plugin.getTweetsForDate(new Date('2023-06-15'));
+			assert.deepEqual(ids(tweets), [IDS.entities, IDS.photo, IDS.remotePhoto, IDS.threadStart]);
+			assert.deepEqual(tweets[3].thread, []);
+		});
+	});
+
+	it('brings them in when the settings include them, with threads in their first tweet', async () => {
+		const include = { includeReplies: true, includeRetweets: true, includeThreads: true, includeDeletedTweets: true };
+		await withPlugin(include, async plugin => {
+			const tweets = await plugin.getTweetsForDate(new Date('2023-06-15'));
+			assert.deepEqual(ids(tweets), [IDS.entities, IDS.photo, IDS.remotePhoto, IDS.reply, IDS.retweet, IDS.threadStart, IDS.deleted]);
+			assert.deepEqual(ids(tweets[5].thread), [IDS.threadNext]);
+			assert.equal(tweets[6].deleted, true);
+		});
+	});
+
+	it('finds tweets by the day in the timezone across DST', async () => {
+		await withPlugin({}, async plugin => {
+			assert.deepEqual(ids(await plugin.getTweetsForDate(new Date('2023-03-12'))), [IDS.beforeSpring, IDS.afterSpring]);
+			assert.deepEqual(ids(await plugin.getTweetsForDate(new Date('2023-11-05'))), [IDS.firstHalfPast, IDS.secondHalfPast, IDS.lateNovember5]);
+		});
+	});
+
+	it('leaves out hidden tweets', async () => {
+		await withPlugin({ hiddenTweets: [IDS.photo] }, async plugin => {
+			assert.deepEqual(ids(await plugin.getTweetsForDate(new Date('2023-06-15'))), [IDS.entities, IDS.remotePhoto, IDS.threadStart]);
+		});
+	});
+
+	it('points media at the archive\'s copy and drops what it doesn\'t have', async () => {
+		await withPlugin({}, async (plugin, dataPath) => {
+			const tweets = await plugin.getTweetsForDate(new Date('2023-06-15'));
+			const photo = tweets.find(tweet => tweet.id === IDS.photo)!;
+			assert.equal(photo.media.length, 1);
+			assert.equal(photo.media[0].url, localUrl(path.join(dataPath, 'tweets_media', `${IDS.photo}-LocalPic.jpg`)));
+			assert.equal(photo.media[0].alt, 'A cat on a desk');
+			assert.deepEqual(tweets.find(tweet => tweet.id === IDS.remotePhoto)!.media, []);
+		});
+	});
+
+	it('keeps remote media URLs when remote media is allowed', async () => {
+		await withPlugin({ allowRemoteMedia: true }, async plugin => {
+			const tweets = await plugin.getTweetsForDate(new Date('2023-06-15'));
+			assert.equal(tweets.find(tweet => tweet.id === IDS.remotePhoto)!.media[0].url, 'https://pbs.twimg.com/media/Missing.jpg');
+		});
+	});
+
+	it('copies media into the vault when importing', async () => {
+		await withPlugin({ importMedia: true }, async (plugin, dataPath, app) => {
+			const target = `Assets/Twitter/media/${IDS.photo}-LocalPic.jpg`;
+			const tweets = await plugin.getTweetsForDate(new Date('2023-06-15'));
+			assert.equal(tweets.find(tweet => tweet.id === IDS.photo)!.media[0].url, `app://local/vault/${target}`);
+			assert.ok(app.vault.getAbstractFileByPath(target));
+		});
+	});
+});
+
+describe('injectTwitterContent', () => {
+	it('renders a card per tweet with the account as it was that day', async () => {
+		await withPlugin({}, async (plugin, dataPath) => {
+			const element = document.createElement('div');
+			await plugin.injectTwitterContent(element, 'Daily Log/2023-03-12.md');
+
+			const cards = element.querySelectorAll('.tweet-container');
+			assert.equal(cards.length, 2);
+			assert.equal(cards[0].querySelector('.tweet-username')!.textContent, 'Test User');
+			assert.equal(cards[0].querySelector('.tweet-handle')!.textContent, '@oldhandle');
+			assert.equal(cards[0].querySelector<HTMLImageElement>('.tweet-avatar')!.src,
+				localUrl(path.join(dataPath, 'profile_media', `${ACCOUNT_ID}-face.jpg`)));
+			// old handles don't resolve, share links use today's
+			assert.equal(cards[0].querySelector<HTMLAnchorElement>('.tweet-share a')!.href, `https://x.com/newhandle/status/${IDS.beforeSpring}`);
+			assert.equal(cards[1].querySelector('.tweet-content')!.textContent, '3:30 AM EDT, an hour later');
+		});
+	});
+
+	it('builds links from entities and never parses tweet text as HTML', async () => {
+		await withPlugin({ mentionLinkTemplate: 'https://example.social/@{name}' }, async plugin => {
+			const element = document.createElement('div');
+			await plugin.injectTwitterContent(element, 'Daily Log/2023-06-15.md');
+
+			const content = element.querySelector('.tweet-container .tweet-content')!;
+			assert.ok(content.textContent!.startsWith('Q&A with @Alice & @bob_2'));
+			assert.ok(content.textContent!.includes('<3'));
+			const links = Array.from(content.querySelectorAll<HTMLAnchorElement>('a.tweet-link')).map(link => [link.textContent, link.href]);
+			assert.deepEqual(links, [
+				['@Alice', 'https://example.social/@Alice'],
+				['@bob_2', 'https://example.social/@bob_2'],
+				['#Obsidian', 'https://x.com/hashtag/Obsidian'],
+				['#日本', 'https://x.com/hashtag/%E6%97%A5%E6%9C%AC'],
+				['https://example.com/a?b=1&c=2', 'https://example.com/a?b=1&c=2'],
+			]);
+			assert.equal(content.querySelector('span.tweet-link')!.textContent, '$TSLA');
+		});
+	});
+
+	it('puts the local photo in the card', async () => {
+		await withPlugin({}, async (plugin, dataPath) => {
+			const element = document.createElement('div');
+			await plugin.injectTwitterContent(element, 'Daily Log/2023-06-15.md');
+
+			const images = Array.from(element.querySelectorAll<HTMLImageElement>('.tweet-media img'));
+			assert.deepEqual(images.map(image => [image.src, image.alt]), [
+				[localUrl(path.join(dataPath, 'tweets_media', `${IDS.photo}-LocalPic.jpg`)), 'A cat on a desk'],
+			]);
+		});
+	});
+
+	it('leaves notes outside the diary alone', async () => {
+		await withPlugin({}, async plugin => {
+			const element = document.createElement('div');
+			await plugin.injectTwitterContent(element, 'Projects/2023-06-15.md');
+			assert.equal(element.childNodes.length, 0);
+		});
+	});
+
+	it('doesn\'t turn post URLs into markup or script links', async () => {
+		await withPlugin({}, async (plugin, dataPath) => {
+			const folder = path.join(path.dirname(dataPath), 'mastodon');
+			fs.mkdirSync(folder);
+			fs.writeFileSync(path.join(folder, 'outbox.json'), JSON.stringify({ orderedItems: [
+				{ type: 'Create', object: { id: 'https://example.social/users/me/statuses/1', url: '"><img src=x onerror="alert(1)">', published: '2023-06-15T20:00:00Z', content: '<p>one</p>' } },
+				{ type: 'Create', object: { id: 'https://example.social/users/me/statuses/2', url: 'javascript:alert(1)', published: '2023-06-15T21:00:00Z', content: '<p>two</p>' } },
+			] }));
+			plugin.settings.mastodonArchivePath = folder;
+			plugin.archive.invalidate();
+
+			for (const layout of ['cards', 'list'] as const) {
+				plugin.settings.layout = layout;
+				const element = document.createElement('div');
+				await plugin.injectTwitterContent(element, 'Daily Log/2023-06-15.md');
+
+				assert.equal(element.querySelectorAll('[onerror]').length, 0);
+				const links = Array.from(element.querySelectorAll('a')).map(link => link.getAttribute('href') || '');
+				assert.ok(links.length > 0);
+				assert.ok(links.every(href => href === '' || /^https?:/.test(href)), links.join(', '));
+			}
+		});
+	});
+});
+
+describe('renderTweetCard', () => {
+	it('puts the network badge right after the deleted badge', async () => {
+		await withPlugin({}, async plugin => {
+			const tweet = toTweet({ id: 'mastodon:1', id_str: 'mastodon:1', full_text: 'gone', created_at: '2023-06-15T12:00:00Z', deleted: true, network: 'mastodon' });
+			const card = plugin.renderTweetCard(tweet, await plugin.account.info(new Date('2023-06-15')));
+
+			const deleted = card.querySelector('.tweet-deleted')!;
+			assert.ok(deleted.nextElementSibling!.classList.contains('tweet-network'));
+		});
+	});
+});
+
+describe('archive errors', () => {
+	it('show once in a block or note instead of a notice per day', async () => {
+		await withPlugin({ dataPath: '/nonexistent/twitter-archive/data', monthlyNoteFormat: 'YYYY-MM' }, async plugin => {
+			notices.length = 0;
+			const block = document.createElement('div');
+			await plugin.renderDiaryBlock('from: 2023-06-01\nto: 2023-06-30', block, 'Daily Log/2023-06-30.md', plugin);
+			const note = document.createElement('div');
+			await plugin.injectTwitterContent(note, 'Daily Log/2023-06.md');
+
+			for (const element of [block, note]) {
+				const errors = element.querySelectorAll('.twitter-diary-error');
+				assert.equal(errors.length, 1);
+				assert.match(errors[0].textContent!, /^twitter-diary: Can't open the archive folder/);
+			}
+			assert.deepEqual(notices, []);
+		});
+	});
+});
+
+describe('renderOnThisDay', () => {
+	it('shows earlier years with annotations and pins like the diary', async () => {
+		await withPlugin({ annotations: { [IDS.photo]: 'Our first cat' }, pinnedTweets: [IDS.photo] }, async plugin => {
+			const element = document.createElement('div');
+			await plugin.renderOnThisDay(element, '2024-06-15');
+
+			assert.equal(element.querySelector('.tweet-year')!.textContent, '2023');
+			const annotations = Array.from(element.querySelectorAll('.tweet-container .tweet-annotation'));
+			assert.deepEqual(annotations.map(note => note.textContent), ['Our first cat']);
+			assert.equal(element.querySelectorAll('.tweet-container.tweet-pinned').length, 1);
+		});
+	});
+});
+
+describe('exportTweets', () => {
+	it('says so when there\'s no file picker to ask where to save', async () => {
+		await withPlugin({}, async plugin => {
+			notices.length = 0;
+			await plugin.exportTweets('2023-06-15', '2023-06-15', 'html');
+			assert.equal(notices.length, 1);
+			assert.match(notices[0], /^Error exporting tweets: the system file picker isn't available/);
+		});
+	});
+});
@@ -0,0 +1,233 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { ArchiveIndex, ArchiveSource, TweetSource } from '../src/archive';
+import { FolderSource, HttpSource, parseFeed, toArchiveTweets } from '../src/feeds';
+import { toDayKey } from '../src/time';
+import { toTweet } from '../src/tweet';
+import { MemoryAdapter, setRequestHandler } from './obsidian';
+import { IDS, TIME_ZONE, createArchive } from './fixture';
+
+const SYNC_URL = 'https://sync.example/api/';
+const CACHE = 'synced-tweets.json';
+
+function createSync(adapter = new MemoryAdapter()) {
+	return new HttpSource(adapter as any, CACHE, () => ({ syncUrl: SYNC_URL, syncToken: 'secret' }));
+}
+
+function createIndex(adapter: MemoryAdapter, sources: TweetSource[]) {
+	return new ArchiveIndex(adapter as any, 'index.json', () => sources, timestamp => toDayKey(timestamp, TIME_ZONE), () => TIME_ZONE);
+}
+
+function feedFolder(files: { [name: string]: string }) {
+	const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'twitter-diary-feed-'));
+	for (const name of Object.keys(files)) fs.writeFileSync(path.join(folder, name), files[name]);
+	return { folder, remove: () => fs.rmSync(folder, { recursive: true, force: true }) };
+}
+
+const simple = (id: string, text: string, created_at = '2023-06-15T12:00:00Z') => ({ id, text, created_at });
+
+describe('toArchiveTweets', () => {
+	it('reads the diary\'s own shape', () => {
+		const [tweet] = toArchiveTweets([{
+			id: '1790000000000000000', text: 'hello #diary', created_at: '2025-05-01T10:00:00Z', likes: 3,
+			media: [{ type: 'photo', url: 'https://example.com/a.jpg', alt: 'a' }],
+		}]);
+		const shown = toTweet(tweet);
+		assert.equal(shown.text, 'hello #diary');
+		assert.equal(shown.likes, 3);
+		assert.equal(shown.network, 'twitter');
+		assert.deepEqual(shown.media.map(item => [item.url, item.alt]), [['https://example.com/a.jpg', 'a']]);
+	});
+
+	it('keeps only the archive\'s fields from archive-shaped tweets', () => {
+		const [tweet] = toArchiveTweets([{
+			id_str: '1790000000000000001',
+			full_text: 'looks like a tweet',
+			created_at: 'Thu May 01 10:00:00 +0000 2025',
+			favorite_count: '2',
+			network: 'mastodon',
+			permalink: 'javascript:alert(1)',
+			author: { username: 'Someone Else', handle: 'else', avatar: '/etc/hosts' },
+			deleted: true,
+		}]);
+		const shown = toTweet(tweet);
+		assert.equal(shown.network, 'twitter');
+		assert.equal(shown.url, 'https://x.com/i/status/1790000000000000001');
+		assert.equal(shown.author, undefined);
+		assert.ok(!shown.deleted);
+		assert.equal(shown.likes, 2);
+	});
+
+	it('drops media that points at local files', () => {
+		const tweets = toArchiveTweets([
+			{ id: '1', text: 'a', created_at: '2025-05-01T10:00:00Z', media: [{ type: 'photo', url: '/home/me/.ssh/id_rsa' }] },
+			{
+				id_str: '2', full_text: 'b', created_at: '2025-05-01T10:00:00Z',
+				extended_entities: { media: [
+					{ type: 'photo', url: 'https://t.co/x', media_url_https: 'C:\\Users\\me\\secret.png' },
+					{ type: 'video', url: 'https://t.co/y', media_url_https: 'https://example.com/v.jpg', video_info: { variants: [{ url: 'file:///etc/passwd' }] } },
+					{ type: 'photo', url: 'https://t.co/z', media_url_https: 'https://example.com/ok.jpg' },
+				] },
+			},
+		]);
+		assert.deepEqual(tweets[0].extended_entities!.media, []);
+		assert.deepEqual(tweets[1].extended_entities!.media!.map(media => media.media_url_https), ['https://example.com/ok.jpg']);
+	});
+
+	it('skips items without an ID or a date', () => {
+		assert.deepEqual(toArchiveTweets([null, 'text', { id: '1' }, { id: '2', created_at: 'not a date' }]), []);
+	});
+});
+
+describe('parseFeed', () => {
+	it('reads JSON Lines, skipping broken lines', () => {
+		assert.deepEqual(parseFeed('{"id": "1"}\n{broken\n\n{"id": "2"}'), [{ id: '1' }, { id: '2' }]);
+	});
+
+	it('reads an object with tweets and a JSON export with days', () => {
+		assert.deepEqual(parseFeed('{"tweets": [{"id": "1"}]}'), [{ id: '1' }]);
+		assert.deepEqual(parseFeed('{"days": [{"tweets": [{"id": "1"}]}, {"day": "x"}]}'), [{ id: '1' }]);
+	});
+});
+
+describe('HttpSource', () => {
+	it('asks for tweets after the newest one it has and keeps them', async () => {
+		const requests: any[] = [];
+		let answer = [simple('1790000000000000001', 'first'), simple('1790000000000000002', 'second')];
+		setRequestHandler(request => {
+			requests.push(request);
+			return { status: 200, text: JSON.stringify(answer) };
+		});
+
+		const adapter = new MemoryAdapter();
+		const sync = createSync(adapter);
+		assert.deepEqual((await sync.sync()).map(tweet => tweet.id_str), ['1790000000000000001', '1790000000000000002']);
+		assert.equal(requests[0].url, 'https://sync.example/api/tweets');
+		assert.equal(requests[0].headers.Authorization, 'Bearer secret');
+
+		// a server that ignores since_id sends some again
+		answer = [simple('1790000000000000002', 'second'), simple('1790000000000000003', 'third')];
+		assert.deepEqual((await sync.sync()).map(tweet => tweet.id_str), ['1790000000000000003']);
+		assert.equal(requests[1].url, 'https://sync.example/api/tweets?since_id=1790000000000000002');
+
+		const kept = await sync.read();
+		assert.equal(kept.tweets.length, 3);
+		assert.deepEqual((await sync.stamp()).map(stamp => stamp.file), [CACHE]);
+	});
+
+	it('throws on an error status and keeps what it had', async () => {
+		const adapter = new MemoryAdapter();
+		const sync = createSync(adapter);
+		setRequestHandler(() => ({ status: 200, text: JSON.stringify([simple('1790000000000000001', 'first')]) }));
+		await sync.sync();
+
+		setRequestHandler(() => ({ status: 503, text: 'Service Unavailable' }));
+		await assert.rejects(sync.sync(), /https:\/\/sync\.example\/api\/tweets\?since_id=1790000000000000001 answered 503/);
+		assert.equal((await sync.read()).tweets.length, 1);
+	});
+
+	it('passes on network errors', async () => {
+		setRequestHandler(() => {
+			throw new Error('getaddrinfo ENOTFOUND sync.example');
+		});
+		await assert.rejects(createSync().sync(), /ENOTFOUND/);
+	});
+
+	it('treats a body that isn\'t JSON as no new tweets', async () => {
+		const adapter = new MemoryAdapter();
+		setRequestHandler(() => ({ status: 200, text: '<html>Sign in</html>' }));
+		assert.deepEqual(await createSync(adapter).sync(), []);
+		assert.equal(await adapter.exists(CACHE), false);
+	});
+
+	it('starts over when the kept tweets are broken', async () => {
+		const adapter = new MemoryAdapter();
+		await adapter.write(CACHE, '[{"id_str": ');
+		setRequestHandler(() => ({ status: 200, text: JSON.stringify([simple('1790000000000000001', 'first')]) }));
+		assert.equal((await createSync(adapter).sync()).length, 1);
+		assert.equal((await createSync(adapter).read()).tweets.length, 1);
+	});
+
+	it('does nothing without a sync URL', async () => {
+		setRequestHandler(() => assert.fail('should not be called'));
+		const sync = new HttpSource(new MemoryAdapter() as any, CACHE, () => ({ syncUrl: '', syncToken: '' }));
+		assert.deepEqual(await sync.sync(), []);
+		assert.deepEqual(await sync.stamp(), []);
+	});
+});
+
+describe('FolderSource', () => {
+	it('reads .json, .jsonl and .js files and skips the rest', async () => {
+		const feed = feedFolder({
+			'a.json': JSON.stringify([simple('1', 'one')]),
+			'b.jsonl': JSON.stringify(simple('2', 'two')) + '\n' + JSON.stringify(simple('3', 'three')),
+			'c.js': 'window.YTD.tweets.part0 = ' + JSON.stringify([{ tweet: { id_str: '4', full_text: 'four', created_at: 'Thu Jun 15 12:00:00 +0000 2023' } }]),
+			'notes.txt': JSON.stringify([simple('5', 'five')]),
+			'broken.json': '{"tweets": [',
+		});
+		try {
+			const source = new FolderSource(() => feed.folder);
+			const stamps = await source.stamp();
+			assert.deepEqual(stamps.map(stamp => path.basename(stamp.file)), ['a.json', 'b.jsonl', 'broken.json', 'c.js']);
+			assert.deepEqual((await source.read(stamps)).tweets.map(tweet => tweet.id_str).sort(), ['1', '2', '3', '4']);
+		} finally {
+			feed.remove();
+		}
+	});
+
+	it('has nothing to read when the folder is missing', async () => {
+		assert.deepEqual(await new FolderSource(() => '/nonexistent/feed').stamp(), []);
+	});
+});
+
+describe('merging sources', () => {
+	it('keeps the archive\'s copy of a tweet a feed has too', async () => {
+		const archive = createArchive();
+		const feed = feedFolder({
+			'feed.json': JSON.stringify([
+				simple(IDS.photo, 'the feed\'s copy', '2023-06-15T14:00:00Z'),
+				simple('1669000000000000100', 'only in the feed', '2023-06-15T22:00:00Z'),
+			]),
+		});
+		try {
+			const index = createIndex(new MemoryAdapter(), [
+				new ArchiveSource(() => archive.dataPath, () => []),
+				new FolderSource(() => feed.folder),
+			]);
+			const day = await index.getTweetsForDay('2023-06-15');
+			assert.equal(day.filter(tweet => tweet.id_str === IDS.photo).length, 1);
+			assert.equal((await index.getTweet(IDS.photo))!.full_text, 'A photo https://t.co/pic1');
+			assert.equal((await index.getTweet('1669000000000000100'))!.full_text, 'only in the feed');
+		} finally {
+			feed.remove();
+			archive.remove();
+		}
+	});
+
+	it('adds synced tweets without rebuilding and skips ones it has', async () => {
+		const archive = createArchive();
+		try {
+			const adapter = new MemoryAdapter();
+			const sync = createSync(adapter);
+			const index = createIndex(adapter, [new ArchiveSource(() => archive.dataPath, () => []), sync]);
+			const before = (await index.getTweetsForDay('2023-06-15')).length;
+
+			setRequestHandler(() => ({ status: 200, text: JSON.stringify([
+				simple(IDS.entities, 'again', '2023-06-15T13:00:00Z'),
+				simple('1669000000000000100', 'synced', '2023-06-15T22:00:00Z'),
+			]) }));
+			assert.equal(await index.merge(sync, await sync.sync()), 1);
+			assert.equal((await index.getTweetsForDay('2023-06-15')).length, before + 1);
+			assert.notEqual((await index.getTweet(IDS.entities))!.full_text, 'again');
+
+			// the index on disk has it too, without a rebuild
+			const reopened = createIndex(adapter, [new ArchiveSource(() => archive.dataPath, () => []), sync]);
+			assert.ok(await reopened.getTweet('1669000000000000100'));
+		} finally {
+			archive.remove();
+		}
+	});
+});
@@ -0,0 +1,174 @@
+/**
+ * Writes a small made-up Twitter archive to a temp folder: tweets split over
+ * two part files, a deleted tweet, media, account files and a handle change.
+ * The tweets sit on the edges the diary has gotten wrong before, DST switches
+ * in New York and text where entity indices and escaping don't line up
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const TIME_ZONE = 'America/New_York';
+export const ACCOUNT_ID = '1000';
+
+export interface ArchiveFixture {
+	// the data folder, what the Data Path setting points at
+	dataPath: string;
+	remove: () => void;
+}
+
+// a tweet ID per role, so tests don't depend on the order below
+export const IDS = {
+	// 2023-03-12, the night clocks spring forward
+	beforeSpring: '1634000000000000001',
+	afterSpring: '1634000000000000002',
+	eveBeforeSpring: '1634000000000000003',
+	// 2023-11-05, 1:30 AM happens twice
+	firstHalfPast: '1721000000000000001',
+	secondHalfPast: '1721000000000000002',
+	lateNovember5: '1721000000000000003',
+	// 2023-06-15
+	entities: '1669000000000000001',
+	photo: '1669000000000000002',
+	remotePhoto: '1669000000000000003',
+	reply: '1669000000000000004',
+	retweet: '1669000000000000005',
+	threadStart: '1669000000000000006',
+	threadNext: '1669000000000000007',
+	deleted: '1669000000000000008',
+};
+
+// the text the entities test looks for, escaped the way tweets.js has it
+export const ENTITY_TEXT = 'Q&amp;A with @Alice &amp; @bob_2 on #Obsidian, #日本 and $TSLA 🎉 https://t.co/aaa1 &lt;3 https://t.co/media1';
+
+/**
+ * Creates the archive, call `remove()` when done
+ */
+export function createArchive(): ArchiveFixture {
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'twitter-diary-archive-'));
+	const dataPath = path.join(root, 'data');
+	fs.mkdirSync(path.join(dataPath, 'tweets_media'), { recursive: true });
+	fs.mkdirSync(path.join(dataPath, 'profile_media'), { recursive: true });
+
+	const tweets = [
+		tweet(IDS.eveBeforeSpring, '2023-03-12T04:30:00Z', 'Saturday night, 11:30 PM EST'),
+		tweet(IDS.beforeSpring, '2023-03-12T06:30:00Z', '1:30 AM EST, just before the clocks jump'),
+		tweet(IDS.afterSpring, '2023-03-12T07:30:00Z', '3:30 AM EDT, an hour later'),
+		tweet(IDS.firstHalfPast, '2023-11-05T05:30:00Z', 'The first 1:30 AM, still EDT'),
+		tweet(IDS.secondHalfPast, '2023-11-05T06:30:00Z', 'The second 1:30 AM, now EST'),
+		tweet(IDS.lateNovember5, '2023-11-06T04:30:00Z', '11:30 PM EST, still November 5th'),
+		entityTweet(),
+		Object.assign(tweet(IDS.photo, '2023-06-15T14:00:00Z', 'A photo https://t.co/pic1'), {
+			extended_entities: { media: [photo('https://t.co/pic1', 'https://pbs.twimg.com/media/LocalPic.jpg', 'A cat on a desk')] },
+		}),
+		Object.assign(tweet(IDS.remotePhoto, '2023-06-15T15:00:00Z', 'Not in the export https://t.co/pic2'), {
+			extended_entities: { media: [photo('https://t.co/pic2', 'https://pbs.twimg.com/media/Missing.jpg', '')] },
+		}),
+	];
+	const moreTweets = [
+		Object.assign(tweet(IDS.reply, '2023-06-15T16:00:00Z', '@someone I agree'), {
+			in_reply_to_status_id_str: '999',
+			in_reply_to_screen_name: 'someone',
+			display_text_range: ['9', '16'],
+			entities: entities({ user_mentions: [{ screen_name: 'someone' }] }),
+		}),
+		tweet(IDS.retweet, '2023-06-15T17:00:00Z', 'RT @someone: something worth sharing'),
+		tweet(IDS.threadStart, '2023-06-15T18:00:00Z', 'A thread, 1/2'),
+		Object.assign(tweet(IDS.threadNext, '2023-06-15T18:05:00Z', 'and 2/2'), {
+			in_reply_to_status_id_str: IDS.threadStart,
+			in_reply_to_screen_name: 'newhandle',
+		}),
+	];
+
+	writeYTD(dataPath, 'tweets.js', 'tweets.part0', tweets.map(item => ({ tweet: item })));
+	writeYTD(dataPath, 'tweets-part1.js', 'tweets.part1', moreTweets.map(item => ({ tweet: item })));
+	writeYTD(dataPath, 'deleted-tweets.js', 'deleted_tweets.part0', [
+		{ tweet: tweet(IDS.deleted, '2023-06-15T19:00:00Z', 'Thought better of it') },
+	]);
+	writeYTD(dataPath, 'account.js', 'account.part0', [{
+		account: { accountId: ACCOUNT_ID, username: 'newhandle', accountDisplayName: 'Test User' },
+	}]);
+	writeYTD(dataPath, 'profile.js', 'profile.part0', [{
+		profile: { avatarMediaUrl: 'https://pbs.twimg.com/profile_images/1/face.jpg' },
+	}]);
+	writeYTD(dataPath, 'screen-name-change.js', 'screen_name_change.part0', [{
+		screenNameChange: { screenNameChange: { changedAt: '2023-06-01T12:00:00.000Z', changedFrom: 'oldhandle', changedTo: 'newhandle' } },
+	}]);
+
+	fs.writeFileSync(path.join(dataPath, 'tweets_media', `${IDS.photo}-LocalPic.jpg`), 'jpeg');
+	fs.writeFileSync(path.join(dataPath, 'profile_media', `${ACCOUNT_ID}-face.jpg`), 'jpeg');
+
+	return {
+		dataPath,
+		remove: () => fs.rmSync(root, { recursive: true, force: true }),
+	};
+}
+
+function writeYTD(dataPath: string, file: string, name: string, entries: any[]) {
+	fs.writeFileSync(path.join(dataPath, file), `window.YTD.${name} = ${JSON.stringify(entries, null, 2)}`);
+}
+
+function tweet(id: string, iso: string, text: string): any {
+	return {
+		id,
+		id_str: id,
+		full_text: text,
+		created_at: archiveDate(iso),
+		favorite_count: '3',
+		retweet_count: '1',
+		display_text_range: ['0', String(Array.from(text).length)],
+		entities: entities({}),
+	};
+}
+
+/**
+ * Indices count code points of the escaped text, the way tweets.js has them
+ * for most tweets. The emoji before the link shifts anything after it if
+ * counted in UTF-16 instead
+ */
+export function entityTweet(): any {
+	const at = (needle: string) => {
+		const points = Array.from(ENTITY_TEXT);
+		const start = Array.from(ENTITY_TEXT.slice(0, ENTITY_TEXT.indexOf(needle))).length;
+		return [String(start), String(Math.min(points.length, start + Array.from(needle).length))];
+	};
+
+	return Object.assign(tweet(IDS.entities, '2023-06-15T13:00:00Z', ENTITY_TEXT), {
+		entities: {
+			hashtags: [{ text: 'Obsidian', indices: at('#Obsidian') }, { text: '日本', indices: at('#日本') }],
+			symbols: [{ text: 'TSLA', indices: at('$TSLA') }],
+			user_mentions: [
+				{ screen_name: 'alice', indices: at('@Alice') },
+				{ screen_name: 'bob_2', indices: at('@bob_2') },
+			],
+			urls: [{ url: 'https://t.co/aaa1', expanded_url: 'https://example.com/a?b=1&c=2', display_url: 'example.com/a?b=1…', indices: at('https://t.co/aaa1') }],
+		},
+		extended_entities: {
+			media: [photo('https://t.co/media1', 'https://pbs.twimg.com/media/Entity.jpg', '')],
+		},
+	});
+}
+
+function entities(extra: any): any {
+	return Object.assign({ hashtags: [], symbols: [], user_mentions: [], urls: [] }, extra);
+}
+
+function photo(url: string, mediaUrl: string, alt: string): any {
+	return {
+		type: 'photo',
+		url,
+		media_url_https: mediaUrl,
+		ext_alt_text: alt || undefined,
+		original_info: { width: '1200', height: '800' },
+	};
+}
+
+// "Sun Mar 12 06:30:00 +0000 2023", like created_at in tweets.js
+function archiveDate(iso: string): string {
+	const date = new Date(iso);
+	const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+	const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+	const pad = (value: number) => (value < 10 ? '0' : '') + value;
+	return `${days[date.getUTCDay()]} ${months[date.getUTCMonth()]} ${pad(date.getUTCDate())} `
+		+ `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000 ${date.getUTCFullYear()}`;
+}
@@ -0,0 +1,111 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { BLOCK_BEGIN, BLOCK_END, MarkdownOptions, tokensToMarkdown, tweetToMarkdown, tweetsBlock, upsertTweetsBlock } from '../src/markdown';
+import { Tweet, toTweet } from '../src/tweet';
+import { entityTweet } from './fixture';
+
+const options = (changes: Partial<MarkdownOptions> = {}): MarkdownOptions => Object.assign({
+	timeZone: 'UTC',
+	permalink: (tweet: Tweet) => `https://x.com/me/status/${tweet.id}`,
+	embed: () => '',
+	mentionLink: () => null,
+	hashtagLink: () => null,
+}, changes);
+
+const post = (changes: Partial<Tweet> = {}): Tweet => Object.assign(toTweet({
+	id: '1', id_str: '1', full_text: 'Hello', created_at: 'Thu Jun 15 14:00:00 +0000 2023', favorite_count: '3', retweet_count: '2',
+}), changes);
+
+describe('tweetToMarkdown', () => {
+	it('links the time to the permalink in angle brackets', () => {
+		const markdown = tweetToMarkdown(post(), options());
+		assert.equal(markdown.split('\n')[0], '> [!tweet] [Jun 15, 2023, 2:00 PM](<https://x.com/me/status/1>)');
+	});
+
+	it('doesn\'t link permalinks that aren\'t http(s)', () => {
+		const markdown = tweetToMarkdown(post({ network: 'mastodon', url: 'javascript:alert(1)' }), options({ permalink: tweet => tweet.url }));
+		assert.ok(!markdown.includes('javascript'), markdown);
+		assert.ok(markdown.startsWith('> [!tweet] Jun 15, 2023, 2:00 PM · Mastodon'), markdown);
+	});
+
+	it('quotes the text, media and counts in a callout', () => {
+		const tweet = toTweet(entityTweet());
+		assert.equal(tweetToMarkdown(tweet, options({ embed: (_tweet, item) => `![[${item.alt || 'media'}]]` })), [
+			`> [!tweet] [Jun 15, 2023, 1:00 PM](<https://x.com/me/status/${tweet.id}>)`,
+			'> Q&A with @Alice & @bob\\_2 on \\#Obsidian, \\#日本 and \\$TSLA 🎉 <https://example.com/a?b=1&c=2> \\<3',
+			'>',
+			'> ![[media]]',
+			'>',
+			'> 1 retweets · 3 likes',
+		].join('\n'));
+	});
+
+	it('says who a reply or repost is from and adds the rest of the thread', () => {
+		const reply = tweetToMarkdown(post({ kind: 'reply', replyTo: { id: '0', handle: 'someone' }, thread: [post({ id: '2', text: 'and more', tokens: [{ type: 'text', text: 'and more' }] })] }), options());
+		assert.deepEqual(reply.split('\n'), [
+			'> [!tweet] [Jun 15, 2023, 2:00 PM](<https://x.com/me/status/1>)',
+			'> Replying to @someone',
+			'>',
+			'> Hello',
+			'>',
+			'> [Jun 15, 2023, 2:00 PM](<https://x.com/me/status/2>)',
+			'> and more',
+			'>',
+			'> 2 retweets · 3 likes',
+		]);
+		assert.ok(tweetToMarkdown(post({ retweetOf: 'someone' }), options()).startsWith('> [!tweet] You reposted @someone · ['));
+	});
+
+	it('nests quoted tweets, or links them when they aren\'t in the archive', () => {
+		const quoted = tweetToMarkdown(post({ quoted: { id: '9', url: 'https://x.com/other/status/9' } }), options());
+		assert.ok(quoted.includes('\n>\n> > [!quote] <https://x.com/other/status/9>\n'), quoted);
+		const inArchive = tweetToMarkdown(post({ quoted: { id: '9', url: 'https://x.com/other/status/9', tweet: post({ id: '9' }) } }), options());
+		assert.ok(inArchive.includes('\n> > [!quote] [Quoted tweet](<https://x.com/other/status/9>)\n> > Hello\n'), inArchive);
+	});
+
+	it('keeps brackets and spaces in permalinks from ending the link', () => {
+		const markdown = tweetToMarkdown(post({ network: 'mastodon', url: 'https://example.social/@me/1> [x](y) z' }), options({ permalink: tweet => tweet.url }));
+		assert.ok(markdown.includes('(<https://example.social/@me/1%3E%20[x](y)%20z>)'), markdown);
+	});
+});
+
+describe('tokensToMarkdown', () => {
+	const links = { mentionLink: (name: string) => `https://x.com/${name}`, hashtagLink: () => null };
+
+	it('links mentions and escapes hashtags so they don\'t become tags', () => {
+		assert.equal(tokensToMarkdown(toTweet(entityTweet()).tokens, links),
+			'Q&A with [@Alice](https://x.com/Alice) & [@bob\\_2](https://x.com/bob_2) on \\#Obsidian, \\#日本 and \\$TSLA 🎉 <https://example.com/a?b=1&c=2> \\<3');
+	});
+
+	it('escapes anything Markdown would pick up', () => {
+		assert.equal(tokensToMarkdown([{ type: 'text', text: '- not a list\n1. nor this *or* `code` | [x] ~a~' }], links),
+			'\\- not a list\n\\1. nor this \\*or\\* \\`code\\` \\| \\[x\\] \\~a\\~');
+	});
+
+	it('shows links that aren\'t http(s) as text', () => {
+		assert.equal(tokensToMarkdown([{ type: 'url', url: 'javascript:alert(1)', display: 'click [me]' }], links), 'click \\[me\\]');
+	});
+});
+
+describe('upsertTweetsBlock', () => {
+	const block = tweetsBlock(['> [!tweet] one', '> [!tweet] two']);
+
+	it('wraps the callouts in markers', () => {
+		assert.equal(block, `${BLOCK_BEGIN}\n\n> [!tweet] one\n\n> [!tweet] two\n\n${BLOCK_END}`);
+	});
+
+	it('appends the block to notes without one', () => {
+		assert.equal(upsertTweetsBlock('', block), `${block}\n`);
+		assert.equal(upsertTweetsBlock('# Today\n\nNotes\n\n\n', block), `# Today\n\nNotes\n\n${block}\n`);
+	});
+
+	it('replaces the old block and keeps what\'s around it', () => {
+		const note = `# Today\n\n${tweetsBlock(['> [!tweet] old'])}\n\nWritten after`;
+		assert.equal(upsertTweetsBlock(note, block), `# Today\n\n${block}\n\nWritten after`);
+	});
+
+	it('appends instead when the end marker is missing', () => {
+		const note = `${BLOCK_BEGIN}\nhalf a block`;
+		assert.equal(upsertTweetsBlock(note, block), `${note}\n\n${block}\n`);
+	});
+});
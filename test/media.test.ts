@@ -0,0 +1,31 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { MediaResolver } from '../src/media';
+import { App, TFile } from './obsidian';
+
+describe('MediaResolver', () => {
+	it('imports several files into a new folder at once', async () => {
+		const dataPath = fs.mkdtempSync(path.join(os.tmpdir(), 'twitter-diary-media-'));
+		try {
+			fs.mkdirSync(path.join(dataPath, 'tweets_media'));
+			for (const name of ['1-One.jpg', '2-Two.jpg', '3-Three.jpg']) {
+				fs.writeFileSync(path.join(dataPath, 'tweets_media', name), name);
+			}
+			const app = new App();
+			const media = new MediaResolver(app as any, () => ({ dataPath, metadataPath: 'Assets/Twitter', allowRemoteMedia: false, importMedia: true }));
+
+			const imported = await Promise.all([
+				media.importPath('1', 'https://pbs.twimg.com/media/One.jpg'),
+				media.importPath('2', 'https://pbs.twimg.com/media/Two.jpg'),
+				media.importPath('3', 'https://pbs.twimg.com/media/Three.jpg'),
+			]);
+			assert.deepEqual(imported, ['Assets/Twitter/media/1-One.jpg', 'Assets/Twitter/media/2-Two.jpg', 'Assets/Twitter/media/3-Three.jpg']);
+			assert.ok(imported.every(file => app.vault.getAbstractFileByPath(file!) instanceof TFile));
+		} finally {
+			fs.rmSync(dataPath, { recursive: true, force: true });
+		}
+	});
+});
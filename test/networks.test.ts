@@ -0,0 +1,206 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { blueskyPosts, jsonRecords, parseOutbox, withBlueskyHandle } from '../src/networks';
+import { toTweet } from '../src/tweet';
+import { withPlugin } from './plugin';
+
+const ACTOR = {
+	id: 'https://example.social/users/me',
+	preferredUsername: 'me',
+	name: 'Me Myself',
+	icon: { url: 'media_attachments/avatar.png' },
+};
+
+const create = (id: number, object: any) => ({
+	type: 'Create',
+	object: Object.assign({ id: `https://example.social/users/me/statuses/${id}`, url: `https://example.social/@me/${id}`, published: '2023-06-15T12:00:00Z' }, object),
+});
+
+describe('parseOutbox', () => {
+	it('makes posts into tweets with the author from actor.json', () => {
+		const [post] = parseOutbox({ orderedItems: [create(1, { content: '<p>Hello &amp; welcome</p><p>Second<br>line</p>' })] }, ACTOR, '/export');
+
+		assert.equal(post.id_str, 'mastodon:1');
+		assert.equal(post.full_text, 'Hello &amp; welcome\n\nSecond\nline');
+		assert.equal(post.created_at, '2023-06-15T12:00:00Z');
+		assert.equal(post.network, 'mastodon');
+		assert.equal(post.permalink, 'https://example.social/@me/1');
+		assert.deepEqual(post.author, { username: 'Me Myself', handle: 'me@example.social', avatar: path.join('/export', 'media_attachments/avatar.png') });
+		assert.equal(toTweet(post).text, 'Hello & welcome\n\nSecond\nline');
+	});
+
+	it('leaves out boosts and anything that isn\'t a post', () => {
+		const tweets = parseOutbox({ orderedItems: [
+			{ type: 'Announce', object: 'https://other.example/users/them/statuses/9' },
+			{ type: 'Create', object: 'https://example.social/users/me/statuses/2' },
+			{ type: 'Create', object: { content: 'no id' } },
+			null,
+			create(3, { content: '<p>kept</p>' }),
+		] }, ACTOR, '/export');
+		assert.deepEqual(tweets.map(tweet => tweet.id_str), ['mastodon:3']);
+	});
+
+	it('leaves out posts without a date', () => {
+		const tweets = parseOutbox({ orderedItems: [
+			{ type: 'Create', object: { id: 'https://example.social/users/me/statuses/1', content: '<p>undated</p>' } },
+			{ type: 'Create', published: '2023-06-15T12:00:00Z', object: { id: 'https://example.social/users/me/statuses/2', content: '<p>dated by the activity</p>' } },
+		] }, ACTOR, '/export');
+		assert.deepEqual(tweets.map(tweet => [tweet.id_str, tweet.created_at]), [['mastodon:2', '2023-06-15T12:00:00Z']]);
+	});
+
+	it('puts content warnings first', () => {
+		const [post] = parseOutbox({ orderedItems: [create(1, { summary: 'spoilers <3', content: '<p>It was the butler</p>' })] }, ACTOR, '/export');
+		assert.equal(post.full_text, 'CW: spoilers &lt;3\n\nIt was the butler');
+	});
+
+	it('keeps links as URLs, but not mentions and hashtags', () => {
+		const content = '<p><span class="h-card"><a href="https://other.example/@them" class="u-url mention">@<span>them</span></a></span> '
+			+ '<a href="https://example.social/tags/obsidian" class="mention hashtag" rel="tag">#<span>obsidian</span></a> '
+			+ '<a href="https://example.com/a?b=1&amp;c=2" rel="nofollow"><span class="invisible">https://</span><span class="ellipsis">example.com/a?b=1&amp;c=2</span></a></p>';
+		const [post] = parseOutbox({ orderedItems: [create(1, { content })] }, ACTOR, '/export');
+
+		assert.equal(post.full_text, '@them #obsidian https://example.com/a?b=1&amp;c=2');
+		assert.deepEqual(post.entities!.urls, [{ url: 'https://example.com/a?b=1&c=2', expanded_url: 'https://example.com/a?b=1&c=2' }]);
+	});
+
+	it('finds attachments in the export or remotely', () => {
+		const [post] = parseOutbox({ orderedItems: [create(1, { content: '<p>pics</p>', attachment: [
+			{ mediaType: 'image/jpeg', url: '/media_attachments/files/1/cat.jpg', name: 'A cat', width: 640, height: 480 },
+			{ mediaType: 'video/mp4', url: 'https://files.example.social/clip.mp4' },
+		] })] }, ACTOR, '/export');
+
+		const tweet = toTweet(post);
+		assert.deepEqual(tweet.media.map(item => [item.type, item.alt]), [['photo', 'A cat'], ['video', '']]);
+		const media = post.extended_entities!.media!;
+		assert.equal(media[0].media_url_https, path.join('/export', '/media_attachments/files/1/cat.jpg'));
+		assert.equal(media[1].media_url_https, 'https://files.example.social/clip.mp4');
+	});
+
+	it('works out who a reply is to', () => {
+		const tweets = parseOutbox({ orderedItems: [
+			create(2, { content: '<p>to myself</p>', inReplyTo: 'https://example.social/users/me/statuses/1' }),
+			create(3, { content: '<p>to them</p>', inReplyTo: 'https://other.example/users/them/statuses/9/' }),
+		] }, ACTOR, '/export');
+
+		assert.deepEqual(tweets.map(tweet => [tweet.in_reply_to_status_id_str, tweet.in_reply_to_screen_name]), [
+			['mastodon:1', 'me@example.social'],
+			['mastodon:9', 'them@other.example'],
+		]);
+	});
+});
+
+const DID = 'did:plc:abc123testuser';
+const uri = (collection: string, rkey: string) => `at://${DID}/${collection}/${rkey}`;
+
+describe('jsonRecords', () => {
+	it('reads records from a listRecords answer or a plain list', () => {
+		const record = { uri: uri('app.bsky.feed.post', '3kaaa'), value: { text: 'hi' } };
+		const expected = [{ did: DID, collection: 'app.bsky.feed.post', rkey: '3kaaa', value: { text: 'hi' } }];
+		assert.deepEqual(jsonRecords({ records: [record] }), expected);
+		assert.deepEqual(jsonRecords([record]), expected);
+	});
+
+	it('skips records without a value or an at:// URI', () => {
+		assert.deepEqual(jsonRecords([
+			{ uri: uri('app.bsky.feed.post', '3kaaa') },
+			{ uri: 'https://bsky.app/profile/me/post/3kaaa', value: {} },
+			null,
+		]), []);
+		assert.deepEqual(jsonRecords({}), []);
+		assert.deepEqual(jsonRecords(null), []);
+	});
+});
+
+describe('blueskyPosts', () => {
+	const records = jsonRecords([
+		{ uri: uri('app.bsky.actor.profile', 'self'), value: { displayName: 'Sky Me', avatar: { ref: { $link: 'bafyavatar' } } } },
+		{ uri: uri('app.bsky.feed.post', '3kaaa'), value: {
+			text: 'Café 🦋 see example.com/x',
+			createdAt: '2023-06-15T12:00:00Z',
+			facets: [{ index: { byteStart: 15, byteEnd: 28 }, features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/x' }] }],
+			embed: { images: [{ alt: 'Sky', image: { ref: { $link: 'bafyimage' } }, aspectRatio: { width: 4, height: 3 } }, { alt: 'no blob' }] },
+		} },
+		{ uri: uri('app.bsky.feed.post', '3kbbb'), value: {
+			text: 'Replying & quoting',
+			createdAt: '2023-06-15T13:00:00Z',
+			reply: { root: { uri: uri('app.bsky.feed.post', '3kaaa') }, parent: { uri: uri('app.bsky.feed.post', '3kaaa') } },
+			embed: { record: { uri: 'at://did:plc:someoneelse/app.bsky.feed.post/3kzzz' } },
+		} },
+		{ uri: uri('app.bsky.feed.post', '3kccc'), value: {
+			text: 'Reading this',
+			createdAt: '2023-06-15T14:00:00Z',
+			embed: { external: { uri: 'https://example.org/article' } },
+		} },
+		{ uri: uri('app.bsky.feed.like', '3klike'), value: { createdAt: '2023-06-15T15:00:00Z', subject: { uri: uri('app.bsky.feed.post', '3kaaa') } } },
+	]);
+	const posts = blueskyPosts(records);
+
+	it('makes posts into tweets, leaving likes and the profile out', () => {
+		assert.deepEqual(posts.map(post => post.id_str), ['bluesky:3kaaa', 'bluesky:3kbbb', 'bluesky:3kccc']);
+		assert.deepEqual(posts[0].author, { username: 'Sky Me', handle: DID, avatar: `https://cdn.bsky.app/img/avatar/plain/${DID}/bafyavatar@jpeg` });
+		assert.equal(posts[0].permalink, `https://bsky.app/profile/${DID}/post/3kaaa`);
+		assert.equal(posts[0].network, 'bluesky');
+	});
+
+	it('finds links by their facets\' byte offsets', () => {
+		assert.deepEqual(posts[0].entities!.urls, [{ url: 'example.com/x', expanded_url: 'https://example.com/x' }]);
+		assert.equal(toTweet(posts[0]).text, 'Café 🦋 see https://example.com/x');
+	});
+
+	it('links images from the CDN, skipping those without a blob', () => {
+		const media = posts[0].extended_entities!.media!;
+		assert.equal(media.length, 1);
+		assert.equal(media[0].media_url_https, `https://cdn.bsky.app/img/feed_fullsize/plain/${DID}/bafyimage@jpeg`);
+		assert.equal(media[0].ext_alt_text, 'Sky');
+	});
+
+	it('adds quoted posts and link cards to the text', () => {
+		assert.equal(posts[1].full_text, 'Replying &amp; quoting\nhttps://bsky.app/profile/did:plc:someoneelse/post/3kzzz');
+		assert.equal(posts[2].full_text, 'Reading this\nhttps://example.org/article');
+	});
+
+	it('knows replies to the account\'s own posts', () => {
+		assert.equal(posts[1].in_reply_to_status_id_str, 'bluesky:3kaaa');
+		assert.equal(posts[1].in_reply_to_screen_name, DID);
+	});
+});
+
+describe('withBlueskyHandle', () => {
+	const posts = blueskyPosts(jsonRecords([
+		{ uri: uri('app.bsky.feed.post', '3kaaa'), value: { text: 'first', createdAt: '2023-06-15T12:00:00Z' } },
+		{ uri: uri('app.bsky.feed.post', '3kbbb'), value: { text: 'second', createdAt: '2023-06-15T13:00:00Z', reply: { parent: { uri: uri('app.bsky.feed.post', '3kaaa') } } } },
+	]));
+
+	it('shows the handle instead of the DID', () => {
+		const tweet = withBlueskyHandle(toTweet(posts[1]), 'me.bsky.social');
+		assert.equal(tweet.url, 'https://bsky.app/profile/me.bsky.social/post/3kbbb');
+		assert.equal(tweet.author!.handle, 'me.bsky.social');
+		// no display name in the profile, the DID stood in for it
+		assert.equal(tweet.author!.username, 'me.bsky.social');
+		assert.equal(tweet.replyTo!.handle, 'me.bsky.social');
+	});
+
+	it('leaves posts alone without a handle and tweets always', () => {
+		assert.equal(withBlueskyHandle(toTweet(posts[0]), '').url, `https://bsky.app/profile/${DID}/post/3kaaa`);
+		const tweet = toTweet({ id: '1', id_str: '1', full_text: 'a tweet', created_at: 'Thu Jun 15 12:00:00 +0000 2023' });
+		assert.equal(withBlueskyHandle(tweet, 'me.bsky.social').url, tweet.url);
+	});
+});
+
+describe('without a Twitter archive', () => {
+	it('shows the other networks\' posts', async () => {
+		await withPlugin({ dataPath: '' }, async (plugin, dataPath) => {
+			const folder = path.join(path.dirname(dataPath), 'mastodon');
+			fs.mkdirSync(folder);
+			fs.writeFileSync(path.join(folder, 'outbox.json'), JSON.stringify({ orderedItems: [create(1, { content: '<p>Only on Mastodon</p>' })] }));
+			plugin.settings.mastodonArchivePath = folder;
+			plugin.archive.invalidate();
+
+			assert.deepEqual(await plugin.archive.getDays(), ['2023-06-15']);
+			const tweets = await plugin.api.getTweets('2023-06-15');
+			assert.deepEqual(tweets.map(tweet => tweet.text), ['Only on Mastodon']);
+		});
+	});
+});
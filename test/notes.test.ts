@@ -0,0 +1,60 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { DiaryNotes, NoteSettings, validateNoteFormat } from '../src/notes';
+import { App } from './obsidian';
+
+const notes = (changes: Partial<NoteSettings> = {}, app = new App()) => new DiaryNotes(app as any, () => Object.assign({
+	diaryPath: 'Daily Log',
+	noteFormatSource: 'plugin',
+	noteFormat: 'YYYY-MM-DD',
+	weeklyNoteFormat: '',
+	monthlyNoteFormat: '',
+}, changes));
+
+describe('DiaryNotes', () => {
+	it('finds the day of daily notes in the diary folder and its subfolders', () => {
+		const diary = notes();
+		assert.deepEqual(diary.parse('Daily Log/2023-06-15.md'), { period: 'day', from: '2023-06-15', to: '2023-06-15' });
+		assert.deepEqual(diary.parse('Daily Log/2023/2023-06-15.md'), { period: 'day', from: '2023-06-15', to: '2023-06-15' });
+		assert.equal(diary.parse('Projects/2023-06-15.md'), null);
+		assert.equal(diary.parse('Daily Log/2023-06-15.canvas'), null);
+		assert.equal(diary.parse('Daily Log/2023-02-30.md'), null);
+	});
+
+	it('goes by formats with folders and names in them', () => {
+		const diary = notes({ noteFormat: 'YYYY/MM-MMMM/YYYY-MM-DD dddd' });
+		assert.deepEqual(diary.parse('Daily Log/2023/06-June/2023-06-15 Thursday.md'), { period: 'day', from: '2023-06-15', to: '2023-06-15' });
+		assert.equal(diary.parse('Daily Log/2023-06-15 Thursday.md'), null);
+		assert.equal(diary.dayPath('2023-06-15'), 'Daily Log/2023/06-June/2023-06-15 Thursday.md');
+	});
+
+	it('covers the whole week or month of weekly and monthly notes', () => {
+		const diary = notes({ weeklyNoteFormat: 'gggg-[W]ww', monthlyNoteFormat: 'YYYY-MM' });
+		assert.deepEqual(diary.parse('Daily Log/2023-02.md'), { period: 'month', from: '2023-02-01', to: '2023-02-28' });
+		const week = diary.parse('Daily Log/2023-W24.md')!;
+		assert.equal(week.period, 'week');
+		assert.ok(week.from <= '2023-06-15' && '2023-06-15' <= week.to, JSON.stringify(week));
+	});
+
+	it('uses the Daily Notes plugin\'s folder and format when asked to', () => {
+		const app: any = new App();
+		app.internalPlugins = { getPluginById: () => ({ enabled: true, instance: { options: { folder: 'Journal/', format: 'DD.MM.YYYY' } } }) };
+		const diary = notes({ noteFormatSource: 'daily-notes' }, app);
+		assert.deepEqual(diary.parse('Journal/15.06.2023.md'), { period: 'day', from: '2023-06-15', to: '2023-06-15' });
+		assert.equal(diary.dayPath('2023-06-15'), 'Journal/15.06.2023.md');
+	});
+});
+
+describe('validateNoteFormat', () => {
+	it('takes formats that name one note per period', () => {
+		assert.equal(validateNoteFormat('YYYY-MM-DD', 'day'), '');
+		assert.equal(validateNoteFormat('gggg-[W]ww', 'week'), '');
+		assert.equal(validateNoteFormat('', 'week'), '');
+	});
+
+	it('says what\'s wrong with the others', () => {
+		assert.equal(validateNoteFormat('', 'day'), 'Set a format, e.g. YYYY-MM-DD');
+		assert.equal(validateNoteFormat('YYYY-MM-DD.md', 'day'), 'Leave off the .md');
+		assert.match(validateNoteFormat('YYYY-MM', 'day'), /^Doesn't identify the day, today would be \d{4}-\d{2}$/);
+	});
+});
@@ -0,0 +1,519 @@
+/**
+ * An in-memory stand-in for the parts of the Obsidian API the plugin uses.
+ * run.mjs bundles the tests with "obsidian" pointing here, so the plugin and
+ * the tests share these classes. The vault lives in a Map, the DOM is jsdom's
+ */
+import * as path from 'path';
+
+// jsdom has no typings here and only the runner needs to find it
+const { JSDOM } = require('jsdom');
+
+// Obsidian runs in a browser window, the tests get jsdom's
+const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', { url: 'app://obsidian.md/' });
+const globals = global as any;
+for (const name of [
+	'window', 'document', 'Node', 'Element', 'HTMLElement', 'HTMLAnchorElement', 'HTMLImageElement',
+	'HTMLVideoElement', 'HTMLInputElement', 'DocumentFragment', 'Event', 'MouseEvent', 'KeyboardEvent',
+	'FileReader', 'Blob',
+]) {
+	globals[name] = dom.window[name];
+}
+
+// the helpers Obsidian adds to every element
+interface ElementOptions {
+	cls?: string | string[];
+	text?: string;
+	attr?: { [key: string]: string | number | boolean };
+}
+
+const elementHelpers: { [name: string]: (this: HTMLElement, ...args: any[]) => any } = {
+	createEl(tag: string, options: ElementOptions | string = {}) {
+		const el = document.createElement(tag);
+		const info = typeof options === 'string' ? { cls: options } : options;
+		if (info.cls) el.className = Array.isArray(info.cls) ? info.cls.join(' ') : info.cls;
+		if (info.text != null) el.textContent = info.text;
+		for (const key in info.attr || {}) el.setAttribute(key, String(info.attr![key]));
+		this.appendChild(el);
+		return el;
+	},
+	createDiv(options?: ElementOptions | string) {
+		return elementHelpers.createEl.call(this, 'div', options);
+	},
+	createSpan(options?: ElementOptions | string) {
+		return elementHelpers.createEl.call(this, 'span', options);
+	},
+	setText(text: string) {
+		this.textContent = text;
+	},
+	empty() {
+		while (this.firstChild) this.removeChild(this.firstChild);
+	},
+	addClass(...classes: string[]) {
+		this.classList.add(...classes);
+	},
+	removeClass(...classes: string[]) {
+		this.classList.remove(...classes);
+	},
+	toggleClass(cls: string, value: boolean) {
+		this.classList.toggle(cls, value);
+	},
+	hasClass(cls: string) {
+		return this.classList.contains(cls);
+	},
+};
+for (const name in elementHelpers) {
+	dom.window.HTMLElement.prototype[name] = elementHelpers[name];
+}
+
+export const moment = require('moment');
+
+export const Platform = {
+	isDesktop: true,
+	isMobile: false,
+	resourcePathPrefix: 'app://local/',
+};
+
+/**
+ * Every Notice shown, newest last
+ */
+export const notices: string[] = [];
+
+export class Notice {
+	constructor(message: string) {
+		notices.push(message);
+	}
+
+	hide() {}
+}
+
+export function normalizePath(value: string): string {
+	const normalized = value.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+	return normalized || '/';
+}
+
+export function debounce<T extends unknown[]>(callback: (...args: T) => unknown, timeout = 0) {
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	const debounced = (...args: T) => {
+		if (timer) clearTimeout(timer);
+		timer = setTimeout(() => callback(...args), timeout);
+		// a pending refresh shouldn't keep a finished test alive
+		if (typeof timer === 'object' && timer && 'unref' in timer) timer.unref();
+		return debounced;
+	};
+	debounced.cancel = () => {
+		if (timer) clearTimeout(timer);
+		timer = null;
+		return debounced;
+	};
+	return debounced;
+}
+
+/**
+ * Only the flat `key: value` blocks the tests write, lists in [a, b] form
+ */
+export function parseYaml(source: string): any {
+	const result: { [key: string]: any } = {};
+	for (const line of source.split('\n')) {
+		const match = /^([\w-]+):\s*(.*)$/.exec(line.trim());
+		if (!match) continue;
+		const value = match[2].trim();
+		if (/^\[.*\]$/.test(value)) {
+			result[match[1]] = value.slice(1, -1).split(',').map(item => item.trim()).filter(item => item);
+		} else if (/^-?\d+$/.test(value)) {
+			result[match[1]] = Number(value);
+		} else if (value === 'true' || value === 'false') {
+			result[match[1]] = value === 'true';
+		} else {
+			result[match[1]] = value.replace(/^['"]|['"]$/g, '');
+		}
+	}
+	return result;
+}
+
+let requestHandler: (request: any) => any = () => {
+	throw new Error('No request handler set, see setRequestHandler');
+};
+
+/**
+ * What requestUrl answers with, e.g. a fake sync server
+ */
+export function setRequestHandler(handler: (request: any) => any) {
+	requestHandler = handler;
+}
+
+export async function requestUrl(request: any) {
+	return requestHandler(typeof request === 'string' ? { url: request } : request);
+}
+
+export class TAbstractFile {
+	path = '';
+	name = '';
+	parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
+	basename = '';
+	extension = '';
+	stat = { ctime: 0, mtime: 0, size: 0 };
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+
+	isRoot(): boolean {
+		return this.path === '/';
+	}
+}
+
+class Events {
+	private handlers: { [name: string]: ((...args: any[]) => any)[] } = {};
+
+	on(name: string, callback: (...args: any[]) => any) {
+		(this.handlers[name] = this.handlers[name] || []).push(callback);
+		return { name, callback };
+	}
+
+	trigger(name: string, ...args: any[]) {
+		(this.handlers[name] || []).forEach(callback => callback(...args));
+	}
+}
+
+/**
+ * The vault's files by path. Text is kept as strings, binaries as ArrayBuffers
+ */
+export class MemoryAdapter {
+	files = new Map<string, string | ArrayBuffer>();
+	mtimes = new Map<string, number>();
+	private clock = 1;
+
+	async exists(filePath: string): Promise<boolean> {
+		return this.files.has(normalizePath(filePath));
+	}
+
+	async read(filePath: string): Promise<string> {
+		const contents = this.files.get(normalizePath(filePath));
+		if (typeof contents !== 'string') throw new Error(`ENOENT: ${filePath}`);
+		return contents;
+	}
+
+	async write(filePath: string, data: string) {
+		this.store(filePath, data);
+	}
+
+	async writeBinary(filePath: string, data: ArrayBuffer) {
+		this.store(filePath, data);
+	}
+
+	async stat(filePath: string) {
+		const contents = this.files.get(normalizePath(filePath));
+		if (contents === undefined) return null;
+		const size = typeof contents === 'string' ? contents.length : contents.byteLength;
+		return { type: 'file', ctime: 0, mtime: this.mtimes.get(normalizePath(filePath)) || 0, size };
+	}
+
+	async remove(filePath: string) {
+		this.files.delete(normalizePath(filePath));
+	}
+
+	getResourcePath(filePath: string): string {
+		return `app://local/vault/${normalizePath(filePath)}`;
+	}
+
+	private store(filePath: string, data: string | ArrayBuffer) {
+		this.files.set(normalizePath(filePath), data);
+		// a real clock can tick less than once between two writes
+		this.mtimes.set(normalizePath(filePath), this.clock++);
+	}
+}
+
+export class Vault extends Events {
+	adapter = new MemoryAdapter();
+	private root = Object.assign(new TFolder(), { path: '/', name: '' });
+	private byPath = new Map<string, TAbstractFile>([['/', this.root]]);
+
+	getRoot(): TFolder {
+		return this.root;
+	}
+
+	getAbstractFileByPath(filePath: string): TAbstractFile | null {
+		return this.byPath.get(normalizePath(filePath)) || null;
+	}
+
+	getAllLoadedFiles(): TAbstractFile[] {
+		return Array.from(this.byPath.values());
+	}
+
+	getFiles(): TFile[] {
+		return this.getAllLoadedFiles().filter((file): file is TFile => file instanceof TFile);
+	}
+
+	getMarkdownFiles(): TFile[] {
+		return this.getFiles().filter(file => file.extension === 'md');
+	}
+
+	getResourcePath(file: TFile): string {
+		return this.adapter.getResourcePath(file.path);
+	}
+
+	async read(file: TFile): Promise<string> {
+		return this.adapter.read(file.path);
+	}
+
+	async cachedRead(file: TFile): Promise<string> {
+		return this.read(file);
+	}
+
+	async create(filePath: string, data: string): Promise<TFile> {
+		return this.add(filePath, data);
+	}
+
+	async createBinary(filePath: string, data: ArrayBuffer): Promise<TFile> {
+		return this.add(filePath, data);
+	}
+
+	async modify(file: TFile, data: string) {
+		await this.adapter.write(file.path, data);
+		this.trigger('modify', file);
+	}
+
+	async process(file: TFile, change: (data: string) => string): Promise<string> {
+		const data = change(await this.read(file));
+		await this.modify(file, data);
+		return data;
+	}
+
+	// like the real one, the folder only shows up once it's on disk and a second create throws
+	async createFolder(folderPath: string): Promise<TFolder> {
+		const normalized = normalizePath(folderPath);
+		await new Promise(resolve => setTimeout(resolve, 0));
+		if (this.byPath.has(normalized)) throw new Error('Folder already exists.');
+		return this.folder(normalized);
+	}
+
+	private add(filePath: string, data: string | ArrayBuffer): TFile {
+		const normalized = normalizePath(filePath);
+		if (this.byPath.has(normalized)) throw new Error(`File already exists: ${normalized}`);
+
+		const file = new TFile();
+		file.path = normalized;
+		file.name = path.posix.basename(normalized);
+		file.extension = path.posix.extname(normalized).slice(1);
+		file.basename = path.posix.basename(normalized, path.posix.extname(normalized));
+		file.parent = this.folder(path.posix.dirname(normalized));
+		file.parent.children.push(file);
+		this.byPath.set(normalized, file);
+
+		this.adapter.files.set(normalized, data);
+		this.trigger('create', file);
+		return file;
+	}
+
+	// creates missing parents too, which Obsidian leaves to the caller
+	private folder(folderPath: string): TFolder {
+		if (folderPath === '.' || folderPath === '/') return this.root;
+		const existing = this.byPath.get(folderPath);
+		if (existing instanceof TFolder) return existing;
+
+		const folder = new TFolder();
+		folder.path = folderPath;
+		folder.name = path.posix.basename(folderPath);
+		folder.parent = this.folder(path.posix.dirname(folderPath));
+		folder.parent.children.push(folder);
+		this.byPath.set(folderPath, folder);
+		return folder;
+	}
+}
+
+export class Workspace extends Events {
+	getActiveFile(): TFile | null {
+		return null;
+	}
+
+	getLeavesOfType(): WorkspaceLeaf[] {
+		return [];
+	}
+
+	// nothing is laid out in the tests, so it never becomes ready
+	onLayoutReady() {}
+}
+
+export class App {
+	vault = new Vault();
+	workspace = new Workspace();
+	metadataCache = Object.assign(new Events(), {
+		getFileCache: () => null,
+	});
+	fileManager = {
+		processFrontMatter: async (file: TFile, change: (frontmatter: any) => void) => change({}),
+	};
+}
+
+export class Component {
+	private children: Component[] = [];
+
+	load() {
+		this.onload();
+		this.children.forEach(child => child.load());
+	}
+
+	unload() {
+		this.children.forEach(child => child.unload());
+		this.onunload();
+	}
+
+	onload() {}
+	onunload() {}
+
+	addChild<T extends Component>(child: T): T {
+		this.children.push(child);
+		child.load();
+		return child;
+	}
+
+	removeChild<T extends Component>(child: T): T {
+		this.children = this.children.filter(other => other !== child);
+		child.unload();
+		return child;
+	}
+
+	register() {}
+	registerEvent() {}
+	registerDomEvent() {}
+
+	registerInterval(id: number): number {
+		return id;
+	}
+}
+
+export class MarkdownRenderChild extends Component {
+	constructor(public containerEl: HTMLElement) {
+		super();
+	}
+}
+
+export const MarkdownRenderer = {
+	// no Markdown rendering, the text is enough to check
+	async renderMarkdown(markdown: string, el: HTMLElement) {
+		el.createDiv({ text: markdown });
+	},
+	async render(app: App, markdown: string, el: HTMLElement) {
+		el.createDiv({ text: markdown });
+	},
+};
+
+export class Plugin extends Component {
+	private data: any = null;
+	commands: any[] = [];
+	codeBlockProcessors: { [language: string]: (source: string, el: HTMLElement, context: any) => any } = {};
+	postProcessors: ((el: HTMLElement, context: any) => any)[] = [];
+
+	constructor(public app: App, public manifest: any) {
+		super();
+	}
+
+	async loadData(): Promise<any> {
+		return this.data;
+	}
+
+	async saveData(data: any) {
+		this.data = JSON.parse(JSON.stringify(data));
+	}
+
+	addCommand(command: any) {
+		this.commands.push(command);
+		return command;
+	}
+
+	addSettingTab() {}
+	registerView() {}
+
+	addRibbonIcon(): HTMLElement {
+		return document.createElement('div');
+	}
+
+	registerMarkdownCodeBlockProcessor(language: string, handler: (source: string, el: HTMLElement, context: any) => any) {
+		this.codeBlockProcessors[language] = handler;
+	}
+
+	registerMarkdownPostProcessor(processor: (el: HTMLElement, context: any) => any) {
+		this.postProcessors.push(processor);
+	}
+}
+
+/**
+ * Answers every call with itself, and calls the builder callbacks of
+ * `addText(text => ...)` and friends with another one
+ */
+function chain(): any {
+	const proxy: any = new Proxy(function () {}, {
+		get: (target, property) => {
+			if (property === 'then') return undefined;
+			if (property === 'inputEl' || property === 'controlEl' || property === 'descEl' || property === 'settingEl') {
+				return document.createElement('div');
+			}
+			return (...args: any[]) => {
+				if (typeof property === 'string' && /^add/.test(property) && typeof args[0] === 'function') args[0](chain());
+				return proxy;
+			};
+		},
+	});
+	return proxy;
+}
+
+export class Setting {
+	constructor(containerEl: HTMLElement) {
+		return chain();
+	}
+}
+
+export class Menu {
+	constructor() {
+		return chain();
+	}
+}
+
+export class PluginSettingTab {
+	containerEl = document.createElement('div');
+	constructor(public app: App, public plugin: Plugin) {}
+}
+
+export class Modal {
+	containerEl = document.createElement('div');
+	titleEl = document.createElement('div');
+	contentEl = document.createElement('div');
+
+	constructor(public app: App) {}
+
+	open() {
+		this.onOpen();
+	}
+
+	close() {
+		this.onClose();
+	}
+
+	onOpen() {}
+	onClose() {}
+}
+
+export class WorkspaceLeaf {}
+
+export class ItemView extends Component {
+	containerEl = document.createElement('div');
+
+	constructor(public leaf: WorkspaceLeaf) {
+		super();
+		this.containerEl.createDiv();
+		this.containerEl.createDiv();
+	}
+}
+
+export class AbstractInputSuggest<T> {
+	constructor(public app: App, public textInputEl: HTMLInputElement) {}
+
+	setValue(value: string) {
+		this.textInputEl.value = value;
+	}
+
+	close() {}
+}
@@ -0,0 +1,26 @@
+import TwitterDiaryPlugin from '../main';
+import { App } from './obsidian';
+import { TIME_ZONE, createArchive } from './fixture';
+
+/**
+ * Loads the plugin against the fixture archive in a fresh vault and hands it
+ * to `run`, unloading it after so the archive watchers close
+ */
+export async function withPlugin(settings: any, run: (plugin: TwitterDiaryPlugin, dataPath: string, app: App) => Promise<void>) {
+	const archive = createArchive();
+	const app = new App();
+	const plugin = new TwitterDiaryPlugin(app as any, { id: 'twitter-diary', dir: '.obsidian/plugins/twitter-diary' } as any);
+	try {
+		await plugin.saveData(Object.assign({
+			dataPath: archive.dataPath,
+			metadataPath: 'Assets/Twitter',
+			diaryPath: 'Daily Log',
+			timeZone: TIME_ZONE,
+		}, settings));
+		await plugin.onload();
+		await run(plugin, archive.dataPath, app);
+	} finally {
+		plugin.onunload();
+		archive.remove();
+	}
+}
@@ -0,0 +1,42 @@
+// Bundles every test/*.test.ts with "obsidian" swapped for the in-memory
+// stand-in and runs them with Node's test runner
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import process from "process";
+
+const only = process.argv.slice(2);
+const tests = readdirSync("test")
+	.filter(file => file.endsWith(".test.ts"))
+	.filter(file => only.length === 0 || only.some(name => file.includes(name)))
+	.map(file => join("test", file));
+
+const outdir = mkdtempSync(join(tmpdir(), "twitter-diary-tests-"));
+let status = 1;
+try {
+	await esbuild.build({
+		entryPoints: tests,
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node18",
+		outdir,
+		alias: { obsidian: "./test/obsidian.ts" },
+		// jsdom loads files at runtime, it's found through NODE_PATH below
+		external: ["jsdom", "electron"],
+		sourcemap: "inline",
+		logLevel: "warning",
+	});
+
+	const bundles = readdirSync(outdir).filter(file => file.endsWith(".js")).map(file => join(outdir, file));
+	const result = spawnSync(process.execPath, ["--enable-source-maps", "--test", "--test-reporter=spec", ...bundles], {
+		stdio: "inherit",
+		env: Object.assign({}, process.env, { NODE_PATH: resolve("node_modules"), TZ: "UTC" }),
+	});
+	status = result.status === null ? 1 : result.status;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}
+process.exit(status);
@@ -0,0 +1,58 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { EMPTY_FILTERS, SearchFilters, searchTweets, toSearchEntry } from '../src/search';
+import { TweetSearchModal } from '../src/search-modal';
+import { IDS, entityTweet } from './fixture';
+import { withPlugin } from './plugin';
+
+const filters = (changes: Partial<SearchFilters>): SearchFilters => Object.assign({}, EMPTY_FILTERS, changes);
+
+describe('searchTweets', () => {
+	const entries = [
+		toSearchEntry(entityTweet(), '2023-06-15'),
+		toSearchEntry({ id: '2', id_str: '2', full_text: 'Walked the dog', created_at: 'Thu Jun 15 20:00:00 +0000 2023', favorite_count: '12', retweet_count: '1' }, '2023-06-15'),
+		toSearchEntry({ id: '3', id_str: '3', full_text: 'RT @someone: a dog walked me', created_at: 'Fri Jun 16 20:00:00 +0000 2023' }, '2023-06-16'),
+	];
+	const ids = (found: typeof entries) => found.map(entry => entry.raw.id_str);
+
+	it('returns everything newest first when nothing is filtered', () => {
+		assert.deepEqual(ids(searchTweets(entries, EMPTY_FILTERS, 10)), ['3', '2', IDS.entities]);
+		assert.deepEqual(ids(searchTweets(entries, EMPTY_FILTERS, 1)), ['3']);
+	});
+
+	it('matches every word, ignoring case and entity escapes', () => {
+		assert.deepEqual(ids(searchTweets(entries, filters({ query: 'DOG walked' }), 10)), ['3', '2']);
+		assert.deepEqual(ids(searchTweets(entries, filters({ query: 'q&a' }), 10)), [IDS.entities]);
+	});
+
+	it('filters by day, kind, tags, mentions and counts', () => {
+		assert.deepEqual(ids(searchTweets(entries, filters({ from: '2023-06-16' }), 10)), ['3']);
+		assert.deepEqual(ids(searchTweets(entries, filters({ to: '2023-06-15' }), 10)), ['2', IDS.entities]);
+		assert.deepEqual(ids(searchTweets(entries, filters({ kind: 'retweet' }), 10)), ['3']);
+		assert.deepEqual(ids(searchTweets(entries, filters({ hashtag: '#obsidian' }), 10)), [IDS.entities]);
+		assert.deepEqual(ids(searchTweets(entries, filters({ mention: '@BOB_2' }), 10)), [IDS.entities]);
+		assert.deepEqual(ids(searchTweets(entries, filters({ minLikes: 10, minRetweets: 1 }), 10)), ['2']);
+	});
+});
+
+describe('TweetSearchModal', () => {
+	it('shows results as compact tweet lines that open the day', async () => {
+		await withPlugin({}, async (plugin, _dataPath, app) => {
+			const modal = new TweetSearchModal(app as any, plugin);
+			await modal.onOpen();
+
+			const results = Array.from(modal.contentEl.querySelectorAll('.tweet-search-result'));
+			assert.ok(results.length > 0);
+			assert.ok(results.every(result => result.querySelector('.tweet-line')));
+			assert.ok(!modal.contentEl.textContent!.includes('Thought better of it'));
+
+			const opened: string[] = [];
+			plugin.openDailyNote = async (day: string) => { opened.push(day); };
+			const newest = results[0] as HTMLElement;
+			newest.querySelector('a')!.dispatchEvent(new window.MouseEvent('click', { bubbles: true }));
+			assert.deepEqual(opened, []);
+			newest.click();
+			assert.deepEqual(opened, ['2023-11-05']);
+		});
+	});
+});
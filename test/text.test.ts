@@ -0,0 +1,197 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { decodeEntities, tokenizeTweet, tokensToText } from '../src/text';
+import { toTweet } from '../src/tweet';
+import { ENTITY_TEXT } from './fixture';
+
+function entityTweet(indices: (needle: string) => string[]) {
+	return {
+		id: '1',
+		full_text: ENTITY_TEXT,
+		created_at: 'Thu Jun 15 13:00:00 +0000 2023',
+		entities: {
+			hashtags: [{ text: 'Obsidian', indices: indices('#Obsidian') }, { text: '日本', indices: indices('#日本') }],
+			symbols: [{ text: 'TSLA', indices: indices('$TSLA') }],
+			user_mentions: [{ screen_name: 'alice', indices: indices('@Alice') }, { screen_name: 'bob_2', indices: indices('@bob_2') }],
+			urls: [{ url: 'https://t.co/aaa1', expanded_url: 'https://example.com/a?b=1&c=2', indices: indices('https://t.co/aaa1') }],
+		},
+		extended_entities: {
+			media: [{ type: 'photo', url: 'https://t.co/media1', media_url_https: 'https://pbs.twimg.com/media/Entity.jpg' }],
+		},
+	};
+}
+
+// [start, end] of `needle` in `text` counted in code points, the way tweets.js counts
+function at(text: string, needle: string, from = 0): string[] {
+	const start = Array.from(text.slice(0, text.indexOf(needle, from))).length;
+	return [String(start), String(start + Array.from(needle).length)];
+}
+
+// code points of the escaped text, like most of tweets.js
+const escapedIndices = (needle: string) => {
+	const start = Array.from(ENTITY_TEXT.slice(0, ENTITY_TEXT.indexOf(needle))).length;
+	return [String(start), String(start + Array.from(needle).length)];
+};
+
+// UTF-16 units of the unescaped text, off by the escapes and the emoji
+const unescapedUtf16Indices = (needle: string) => {
+	const text = decodeEntities(ENTITY_TEXT);
+	const start = text.indexOf(needle);
+	return [String(start), String(start + needle.length)];
+};
+
+const EXPECTED = [
+	{ type: 'text', text: 'Q&A with ' },
+	{ type: 'mention', text: 'Alice' },
+	{ type: 'text', text: ' & ' },
+	{ type: 'mention', text: 'bob_2' },
+	{ type: 'text', text: ' on ' },
+	{ type: 'hashtag', text: 'Obsidian' },
+	{ type: 'text', text: ', ' },
+	{ type: 'hashtag', text: '日本' },
+	{ type: 'text', text: ' and ' },
+	{ type: 'symbol', text: 'TSLA' },
+	{ type: 'text', text: ' 🎉 ' },
+	{ type: 'url', url: 'https://example.com/a?b=1&c=2', display: 'https://example.com/a?b=1&c=2' },
+	{ type: 'text', text: ' <3' },
+];
+
+describe('tokenizeTweet', () => {
+	it('splits entity-heavy text into mentions, hashtags, cashtags and links', () => {
+		assert.deepEqual(tokenizeTweet(entityTweet(escapedIndices)), EXPECTED);
+	});
+
+	it('finds entities whose indices count something else', () => {
+		assert.deepEqual(tokenizeTweet(entityTweet(unescapedUtf16Indices)), EXPECTED);
+	});
+
+	it('finds entities without indices', () => {
+		assert.deepEqual(tokenizeTweet(entityTweet(() => undefined as any)), EXPECTED);
+	});
+
+	it('keeps a mention\'s case the way it was typed', () => {
+		const tokens = tokenizeTweet(entityTweet(escapedIndices));
+		assert.ok(tokens.some(token => token.type === 'mention' && token.text === 'Alice'));
+	});
+
+	it('skips the leading @mentions of replies', () => {
+		const tokens = tokenizeTweet({
+			full_text: '@someone @other I agree',
+			display_text_range: ['16', '23'],
+			entities: { user_mentions: [{ screen_name: 'someone', indices: ['0', '8'] }, { screen_name: 'other', indices: ['9', '15'] }] },
+		});
+		assert.deepEqual(tokens, [{ type: 'text', text: 'I agree' }]);
+	});
+
+	it('leaves the link to a quoted tweet out', () => {
+		const tweet = toTweet({
+			id: '2',
+			id_str: '2',
+			full_text: 'So true https://t.co/quote',
+			created_at: 'Thu Jun 15 13:00:00 +0000 2023',
+			entities: { urls: [{ url: 'https://t.co/quote', expanded_url: 'https://twitter.com/someone/status/123' }] },
+		});
+		assert.equal(tweet.kind, 'quote');
+		assert.equal(tweet.text, 'So true');
+		assert.equal(tweet.quoted!.id, '123');
+	});
+});
+
+describe('tokenizeTweet with tricky tweets', () => {
+	it('keeps markup in the text as text', () => {
+		const text = '&lt;img src=x onerror=alert(1)&gt; &amp;amp; #tag';
+		assert.deepEqual(tokenizeTweet({ full_text: text, entities: { hashtags: [{ text: 'tag', indices: at(text, '#tag') }] } }), [
+			{ type: 'text', text: '<img src=x onerror=alert(1)> &amp; ' },
+			{ type: 'hashtag', text: 'tag' },
+		]);
+	});
+
+	it('counts ZWJ sequences, flags and skin tones as the code points they are', () => {
+		const text = '👨‍👩‍👧 🇯🇵 👍🏽 @carol &amp; #家族 https://t.co/fam';
+		const tokens = tokenizeTweet({
+			full_text: text,
+			entities: {
+				user_mentions: [{ screen_name: 'carol', indices: at(text, '@carol') }],
+				hashtags: [{ text: '家族', indices: at(text, '#家族') }],
+				urls: [{ url: 'https://t.co/fam', expanded_url: 'https://example.com/family', indices: at(text, 'https://t.co/fam') }],
+			},
+		});
+		assert.deepEqual(tokens, [
+			{ type: 'text', text: '👨‍👩‍👧 🇯🇵 👍🏽 ' },
+			{ type: 'mention', text: 'carol' },
+			{ type: 'text', text: ' & ' },
+			{ type: 'hashtag', text: '家族' },
+			{ type: 'text', text: ' ' },
+			{ type: 'url', url: 'https://example.com/family', display: 'https://example.com/family' },
+		]);
+	});
+
+	it('gives entities with the same indices each their own occurrence', () => {
+		// retweets of long tweets repeat entities with indices from the original
+		const text = '#a and #a again';
+		const tokens = tokenizeTweet({ full_text: text, entities: { hashtags: [{ text: 'a', indices: ['0', '2'] }, { text: 'a', indices: ['0', '2'] }] } });
+		assert.deepEqual(tokensToText(tokens), text);
+		assert.equal(tokens.filter(token => token.type === 'hashtag').length, 2);
+	});
+
+	it('doesn\'t let overlapping entities cut into each other', () => {
+		// the mention is inside the link's text, the link was placed first and wins
+		const text = 'see https://t.co/x@y now';
+		const tokens = tokenizeTweet({
+			full_text: text,
+			entities: {
+				urls: [{ url: 'https://t.co/x@y', expanded_url: 'https://example.com/x@y', indices: at(text, 'https://t.co/x@y') }],
+				user_mentions: [{ screen_name: 'y', indices: at(text, '@y') }],
+			},
+		});
+		assert.deepEqual(tokens, [
+			{ type: 'text', text: 'see ' },
+			{ type: 'url', url: 'https://example.com/x@y', display: 'https://example.com/x@y' },
+			{ type: 'text', text: ' now' },
+		]);
+	});
+
+	it('drops only the media links, wherever they are', () => {
+		const text = 'pic https://t.co/m1 and link https://t.co/u1';
+		const tokens = tokenizeTweet({
+			full_text: text,
+			entities: { urls: [{ url: 'https://t.co/u1', expanded_url: 'https://example.com/', indices: at(text, 'https://t.co/u1') }] },
+			extended_entities: { media: [{ type: 'photo', url: 'https://t.co/m1', media_url_https: 'https://pbs.twimg.com/media/1.jpg', indices: at(text, 'https://t.co/m1') }] },
+		});
+		assert.equal(tokensToText(tokens), 'pic  and link https://example.com/');
+	});
+
+	it('ignores entities that aren\'t in the text or point past its end', () => {
+		const text = 'edited tweet #kept';
+		const tokens = tokenizeTweet({
+			full_text: text,
+			entities: {
+				hashtags: [{ text: 'kept', indices: ['40', '45'] }, { text: 'gone', indices: ['13', '18'] }],
+				user_mentions: [{ screen_name: 'nobody', indices: ['0', '7'] }],
+			},
+		});
+		assert.deepEqual(tokens, [{ type: 'text', text: 'edited tweet ' }, { type: 'hashtag', text: 'kept' }]);
+	});
+
+	it('reads fullwidth hashtags and mentions', () => {
+		const text = '＃日本 ＠Alice';
+		const tokens = tokenizeTweet({
+			full_text: text,
+			entities: { hashtags: [{ text: '日本', indices: at(text, '＃日本') }], user_mentions: [{ screen_name: 'alice', indices: at(text, '＠Alice') }] },
+		});
+		assert.deepEqual(tokens, [{ type: 'hashtag', text: '日本' }, { type: 'text', text: ' ' }, { type: 'mention', text: 'Alice' }]);
+	});
+});
+
+describe('decodeEntities', () => {
+	it('decodes named and numeric entities and leaves unknown ones', () => {
+		assert.equal(decodeEntities('&amp;&lt;&gt;&quot;&#39;&#x1F389;&nope;'), '&<>"\'🎉&nope;');
+	});
+});
+
+describe('tokensToText', () => {
+	it('expands links and keeps the rest as written', () => {
+		assert.equal(tokensToText(tokenizeTweet(entityTweet(escapedIndices))),
+			'Q&A with @Alice & @bob_2 on #Obsidian, #日本 and $TSLA 🎉 https://example.com/a?b=1&c=2 <3');
+	});
+});
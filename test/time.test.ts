@@ -0,0 +1,129 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { eachDay, formatTimestamp, isValidDayStart, isValidTimeZone, parseDayStart, partOfDay, resolveTimeZone, systemTimeZone, toDayKey } from '../src/time';
+import { TIME_ZONE } from './fixture';
+
+describe('toDayKey', () => {
+	it('puts tweets on both sides of the spring forward gap on the same day', () => {
+		// 1:30 AM EST and 3:30 AM EDT are an hour apart
+		assert.equal(toDayKey('2023-03-12T06:30:00Z', TIME_ZONE), '2023-03-12');
+		assert.equal(toDayKey('2023-03-12T07:30:00Z', TIME_ZONE), '2023-03-12');
+		assert.equal(toDayKey('2023-03-12T04:30:00Z', TIME_ZONE), '2023-03-11');
+	});
+
+	it('keeps both 1:30 AMs of the fall back night on the same day', () => {
+		assert.equal(toDayKey('2023-11-05T05:30:00Z', TIME_ZONE), '2023-11-05');
+		assert.equal(toDayKey('2023-11-05T06:30:00Z', TIME_ZONE), '2023-11-05');
+		// 11:30 PM EST is already the 6th in UTC
+		assert.equal(toDayKey('2023-11-06T04:30:00Z', TIME_ZONE), '2023-11-05');
+	});
+
+	it('goes by the wall clock for the day start, whatever the offset', () => {
+		const twoAM = parseDayStart('02:00');
+		// 1:30 AM counts towards the night before, on both DST nights
+		assert.equal(toDayKey('2023-03-12T06:30:00Z', TIME_ZONE, twoAM), '2023-03-11');
+		assert.equal(toDayKey('2023-11-05T05:30:00Z', TIME_ZONE, twoAM), '2023-11-04');
+		assert.equal(toDayKey('2023-11-05T06:30:00Z', TIME_ZONE, twoAM), '2023-11-04');
+		// 3:30 AM EDT is past it, even though only an hour went by
+		assert.equal(toDayKey('2023-03-12T07:30:00Z', TIME_ZONE, twoAM), '2023-03-12');
+	});
+
+	it('keeps a day start that falls in the spring forward gap', () => {
+		// 2:30 AM never happens on the 12th, the cutoff still sits between 1:59 and 3:00
+		const halfPastTwo = parseDayStart('02:30');
+		assert.equal(toDayKey('2023-03-12T06:59:00Z', TIME_ZONE, halfPastTwo), '2023-03-11');
+		assert.equal(toDayKey('2023-03-12T07:10:00Z', TIME_ZONE, halfPastTwo), '2023-03-12');
+	});
+
+	it('treats both runs of a repeated hour alike for the day start', () => {
+		const halfPastOne = parseDayStart('01:30');
+		// 1:15 EDT, then 1:15 EST an hour later
+		assert.equal(toDayKey('2023-11-05T05:15:00Z', TIME_ZONE, halfPastOne), '2023-11-04');
+		assert.equal(toDayKey('2023-11-05T06:15:00Z', TIME_ZONE, halfPastOne), '2023-11-04');
+		assert.equal(toDayKey('2023-11-05T05:45:00Z', TIME_ZONE, halfPastOne), '2023-11-05');
+		assert.equal(toDayKey('2023-11-05T06:45:00Z', TIME_ZONE, halfPastOne), '2023-11-05');
+	});
+
+	it('follows DST in other zones, including the southern hemisphere', () => {
+		// London springs forward at 1 AM GMT on 2023-03-26
+		assert.equal(toDayKey('2023-03-25T23:30:00Z', 'Europe/London'), '2023-03-25');
+		assert.equal(toDayKey('2023-03-26T23:30:00Z', 'Europe/London'), '2023-03-27');
+		// Sydney falls back on 2023-04-02, so 2:30 AM happens twice there
+		assert.equal(toDayKey('2023-04-01T15:30:00Z', 'Australia/Sydney'), '2023-04-02');
+		assert.equal(toDayKey('2023-04-01T16:30:00Z', 'Australia/Sydney'), '2023-04-02');
+		// and springs forward on 2023-10-01, midnight is at UTC+10 until then
+		assert.equal(toDayKey('2023-09-30T13:59:00Z', 'Australia/Sydney'), '2023-09-30');
+		assert.equal(toDayKey('2023-09-30T14:00:00Z', 'Australia/Sydney'), '2023-10-01');
+		// in the summer midnight is at UTC+11
+		assert.equal(toDayKey('2023-12-31T13:00:00Z', 'Australia/Sydney'), '2024-01-01');
+	});
+
+	it('handles zones off by half an hour', () => {
+		assert.equal(toDayKey('2023-06-15T18:29:00Z', 'Asia/Kolkata'), '2023-06-15');
+		assert.equal(toDayKey('2023-06-15T18:30:00Z', 'Asia/Kolkata'), '2023-06-16');
+	});
+
+	it('reads the archive\'s created_at format', () => {
+		assert.equal(toDayKey('Sun Mar 12 07:30:00 +0000 2023', TIME_ZONE), '2023-03-12');
+		assert.equal(toDayKey('Sun Mar 12 07:30:00 +0000 2023', 'Asia/Tokyo'), '2023-03-12');
+		assert.equal(toDayKey('Sun Mar 12 16:30:00 +0000 2023', 'Asia/Tokyo'), '2023-03-13');
+	});
+});
+
+describe('parseDayStart', () => {
+	it('turns HH:MM into minutes and ignores anything else', () => {
+		assert.equal(parseDayStart('04:30'), 270);
+		assert.equal(parseDayStart(''), 0);
+		assert.equal(parseDayStart('25:00'), 0);
+		assert.equal(parseDayStart('4am'), 0);
+	});
+});
+
+describe('resolveTimeZone', () => {
+	it('falls back to the system zone when unset or unknown', () => {
+		assert.equal(resolveTimeZone('Europe/Berlin'), 'Europe/Berlin');
+		assert.equal(resolveTimeZone(''), systemTimeZone());
+		assert.equal(resolveTimeZone('Eastern Standard Time'), systemTimeZone());
+		assert.equal(isValidTimeZone('America/New_York'), true);
+		assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+	});
+});
+
+describe('isValidDayStart', () => {
+	it('takes empty or HH:MM', () => {
+		assert.equal(isValidDayStart(''), true);
+		assert.equal(isValidDayStart('4:00'), true);
+		assert.equal(isValidDayStart('04:60'), false);
+		assert.equal(isValidDayStart('24:00'), false);
+	});
+});
+
+describe('formatTimestamp', () => {
+	it('shows the repeated hour with the offset in effect', () => {
+		assert.equal(formatTimestamp('2023-11-05T05:30:00Z', TIME_ZONE), 'Nov 5, 2023, 1:30 AM');
+		assert.equal(formatTimestamp('2023-11-05T06:30:00Z', TIME_ZONE), 'Nov 5, 2023, 1:30 AM');
+		assert.equal(formatTimestamp('2023-03-12T07:30:00Z', TIME_ZONE), 'Mar 12, 2023, 3:30 AM');
+	});
+
+	it('jumps from 1:59 to 3:00 when clocks spring forward', () => {
+		assert.equal(formatTimestamp('2023-03-12T06:59:00Z', TIME_ZONE), 'Mar 12, 2023, 1:59 AM');
+		assert.equal(formatTimestamp('2023-03-12T07:00:00Z', TIME_ZONE), 'Mar 12, 2023, 3:00 AM');
+	});
+});
+
+describe('partOfDay', () => {
+	it('goes by local time', () => {
+		assert.equal(partOfDay('2023-03-12T07:30:00Z', TIME_ZONE), 'Night');
+		assert.equal(partOfDay('2023-06-15T13:00:00Z', TIME_ZONE), 'Morning');
+		assert.equal(partOfDay('2023-06-15T18:00:00Z', TIME_ZONE), 'Afternoon');
+		assert.equal(partOfDay('2023-06-15T22:00:00Z', TIME_ZONE), 'Evening');
+	});
+});
+
+describe('eachDay', () => {
+	it('steps over DST switches one calendar day at a time', () => {
+		assert.deepEqual(eachDay('2023-03-11', '2023-03-13'), ['2023-03-11', '2023-03-12', '2023-03-13']);
+		assert.deepEqual(eachDay('2023-11-04', '2023-11-06'), ['2023-11-04', '2023-11-05', '2023-11-06']);
+		assert.deepEqual(eachDay('2023-11-06', '2023-11-05'), []);
+	});
+});
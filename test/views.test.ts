@@ -0,0 +1,93 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { OnThisDayView } from '../src/on-this-day-view';
+import { StatsView } from '../src/stats-view';
+import { MarkdownRenderer, WorkspaceLeaf, notices } from './obsidian';
+import { withPlugin } from './plugin';
+
+const MISSING = '/nonexistent/twitter-archive/data';
+
+describe('OnThisDayView', () => {
+	it('shows why the archive couldn\'t be read', async () => {
+		await withPlugin({ dataPath: MISSING }, async (plugin, _dataPath, app) => {
+			const view = new OnThisDayView(new WorkspaceLeaf() as any, plugin);
+			view.app = app as any;
+			await view.onOpen();
+
+			const error = view.containerEl.querySelector('.twitter-diary-error')!;
+			assert.match(error.textContent!, /^twitter-diary: Can't open the archive folder/);
+		});
+	});
+
+	it('keeps the newest refresh when an older one finishes later', async () => {
+		await withPlugin({}, async (plugin, _dataPath, app) => {
+			const view = new OnThisDayView(new WorkspaceLeaf() as any, plugin);
+			view.app = app as any;
+
+			let finishSlow = () => {};
+			plugin.renderOnThisDay = async (element, day) => {
+				if (day === 'slow') await new Promise<void>(resolve => { finishSlow = resolve; });
+				element.textContent = day;
+			};
+			plugin.today = () => 'slow';
+			const slow = view.refresh(true);
+			plugin.today = () => 'fast';
+			await view.refresh(true);
+			finishSlow();
+			await slow;
+
+			assert.equal(view.containerEl.children[1].textContent, 'fast');
+		});
+	});
+});
+
+describe('StatsView', () => {
+	it('shows why the archive couldn\'t be read', async () => {
+		await withPlugin({ dataPath: MISSING }, async plugin => {
+			const view = new StatsView(new WorkspaceLeaf() as any, plugin);
+			await view.onOpen();
+
+			const error = view.containerEl.querySelector('.twitter-diary-error')!;
+			assert.match(error.textContent!, /^twitter-diary: Can't open the archive folder/);
+		});
+	});
+
+	it('unloads what the last refresh rendered', async () => {
+		await withPlugin({}, async plugin => {
+			const view = new StatsView(new WorkspaceLeaf() as any, plugin);
+			const components: any[] = [];
+			const renderMarkdown = MarkdownRenderer.renderMarkdown;
+			MarkdownRenderer.renderMarkdown = async (markdown: string, el: HTMLElement, _sourcePath?: string, component?: any) => {
+				components.push(component);
+				return renderMarkdown(markdown, el);
+			};
+			try {
+				await view.onOpen();
+				await view.refresh();
+			} finally {
+				MarkdownRenderer.renderMarkdown = renderMarkdown;
+			}
+
+			assert.equal(components.length, 2);
+			assert.notEqual(components[0], view);
+			assert.notEqual(components[0], components[1]);
+			let unloaded = 0;
+			components[0].onunload = () => unloaded++;
+			components[1].onunload = () => unloaded++;
+			await view.refresh();
+			// only the newest was still loaded
+			assert.equal(unloaded, 1);
+		});
+	});
+});
+
+describe('openRandomDay', () => {
+	it('says so when the archive can\'t be read', async () => {
+		await withPlugin({ dataPath: MISSING }, async plugin => {
+			notices.length = 0;
+			await plugin.openRandomDay();
+			assert.equal(notices.length, 1);
+			assert.match(notices[0], /^Error reading the archive: Can't open the archive folder/);
+		});
+	});
+});
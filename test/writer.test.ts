@@ -0,0 +1,102 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { BLOCK_BEGIN, BLOCK_END } from '../src/markdown';
+import { IDS } from './fixture';
+import { TFile, notices } from './obsidian';
+import { withPlugin } from './plugin';
+
+describe('NoteWriter', () => {
+	it('writes the day\'s tweets under the note and replaces them on the next write', async () => {
+		await withPlugin({}, async (plugin, _dataPath, app) => {
+			const file = await app.vault.create('Daily Log/2023-03-12.md', '# Sunday\n\nSlept in.\n') as any;
+			assert.equal(await plugin.writer.writeNote(file, '2023-03-12'), 2);
+
+			const written = await app.vault.read(file);
+			assert.ok(written.startsWith(`# Sunday\n\nSlept in.\n\n${BLOCK_BEGIN}\n\n> [!tweet] [Mar 12, 2023, 1:30 AM](<https://x.com/newhandle/status/${IDS.beforeSpring}>)\n`), written);
+			assert.ok(written.includes('> 3:30 AM EDT, an hour later'));
+			assert.ok(written.endsWith(`${BLOCK_END}\n`));
+
+			await app.vault.modify(file, written + '\nWritten after.\n');
+			await plugin.writer.writeNote(file, '2023-03-12');
+			assert.equal(await app.vault.read(file), written + '\nWritten after.\n');
+		});
+	});
+
+	it('leaves notes without tweets alone', async () => {
+		await withPlugin({}, async (plugin, _dataPath, app) => {
+			const file = await app.vault.create('Daily Log/2023-01-01.md', 'Nothing tweeted') as any;
+			assert.equal(await plugin.writer.writeNote(file, '2023-01-01'), 0);
+			assert.equal(await app.vault.read(file), 'Nothing tweeted');
+		});
+	});
+
+	it('backfills a note per day with tweets, looking each day up once', async () => {
+		await withPlugin({}, async (plugin, _dataPath, app) => {
+			await app.vault.create('Daily Log/2023-03-12.md', '');
+			const queried: string[] = [];
+			const queryTweets = plugin.queryTweets.bind(plugin);
+			plugin.queryTweets = (date, filter) => {
+				queried.push(date.toISOString().slice(0, 10));
+				return queryTweets(date, filter);
+			};
+			notices.length = 0;
+			await plugin.writer.backfill();
+
+			const days = await plugin.archive.getDays();
+			assert.deepEqual(queried, days);
+			assert.deepEqual(notices, ['Wrote tweets into 4 notes, 3 of them new']);
+			for (const day of ['2023-03-11', '2023-03-12', '2023-06-15', '2023-11-05']) {
+				const file = app.vault.getAbstractFileByPath(`Daily Log/${day}.md`) as TFile;
+				assert.ok((await app.vault.read(file)).startsWith(BLOCK_BEGIN), day);
+			}
+		});
+	});
+	it('creates notes in a new folder side by side', async () => {
+		await withPlugin({ diaryPath: 'Journal/Tweets' }, async (plugin, _dataPath, app) => {
+			const notes = await Promise.all(['2023-03-11', '2023-03-12'].map(day => plugin.writer.createNote(day)));
+			assert.deepEqual(notes.map(note => note.path), ['Journal/Tweets/2023-03-11.md', 'Journal/Tweets/2023-03-12.md']);
+			assert.ok(app.vault.getAbstractFileByPath('Journal/Tweets/2023-03-12.md'));
+		});
+	});
+});
+
+describe('TweetExporter', () => {
+	it('exports the days with tweets as JSON', async () => {
+		await withPlugin({}, async plugin => {
+			const exported = JSON.parse(await plugin.exporter.toJson('2023-03-10', '2023-03-12'));
+			assert.equal(exported.version, 1);
+			assert.deepEqual(exported.days.map((day: any) => [day.day, day.account.handle, day.tweets.map((tweet: any) => tweet.id)]), [
+				['2023-03-11', 'oldhandle', [IDS.eveBeforeSpring]],
+				['2023-03-12', 'oldhandle', [IDS.beforeSpring, IDS.afterSpring]],
+			]);
+		});
+	});
+
+	it('exports a Markdown note and replaces it when exported again', async () => {
+		await withPlugin({}, async (plugin, _dataPath, app) => {
+			const note = await plugin.exporter.exportNote('2023-03-10', '2023-03-12');
+			assert.equal(note.path, 'Tweets 2023-03-10 to 2023-03-12.md');
+			const contents = await app.vault.read(note);
+			assert.ok(contents.startsWith(`# Tweets from 2023-03-10 to 2023-03-12\n\n## 2023-03-11\n\n${BLOCK_BEGIN}`), contents);
+			assert.ok(contents.includes(`## 2023-03-12\n\n${BLOCK_BEGIN}`));
+			assert.ok(!contents.includes('2023-03-10\n'));
+
+			assert.equal(await plugin.exporter.exportNote('2023-03-10', '2023-03-12'), note);
+		});
+	});
+
+	it('exports a standalone HTML page with the diary\'s cards', async () => {
+		await withPlugin({}, async (plugin, _dataPath, app) => {
+			await app.vault.adapter.write('.obsidian/plugins/twitter-diary/styles.css', '.tweet-container {}');
+			notices.length = 0;
+			const html = await plugin.exporter.toHtml('2023-03-12', '2023-03-12');
+			assert.ok(html.startsWith('<!DOCTYPE html>'));
+			assert.ok(html.includes('<h1>Tweets on 2023-03-12</h1>'));
+			assert.ok(html.includes('.tweet-container {}'));
+			assert.equal(html.split('class="tweet-container').length - 1, 2);
+			// node can't fetch app:// URLs, so the avatars are left out with one notice
+			assert.ok(!html.includes('app://'));
+			assert.deepEqual(notices, ['Left out 1 media file that couldn\'t be read']);
+		});
+	});
+});